@@ -0,0 +1,12 @@
+// https://docs.expo.dev/guides/using-eslint/
+module.exports = {
+  extends: 'expo',
+  ignorePatterns: ['/dist/*'],
+  overrides: [
+    {
+      // Build scripts run in Node, outside the app bundle.
+      files: ['scripts/**/*.js'],
+      env: { node: true },
+    },
+  ],
+};
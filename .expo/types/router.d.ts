@@ -6,9 +6,9 @@ export * from 'expo-router';
 declare module 'expo-router' {
   export namespace ExpoRouter {
     export interface __routes<T extends string | object = string> {
-      hrefInputParams: { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/projects` | `/projects`; params?: Router.UnknownInputParams; } | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } };
-      hrefOutputParams: { pathname: Router.RelativePathString, params?: Router.UnknownOutputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownOutputParams } | { pathname: `/_sitemap`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/projects` | `/projects`; params?: Router.UnknownOutputParams; } | { pathname: `/+not-found`, params: Router.UnknownOutputParams & {  } };
-      href: Router.RelativePathString | Router.ExternalPathString | `/_sitemap${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}${`?${string}` | `#${string}` | ''}` | `/${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/projects${`?${string}` | `#${string}` | ''}` | `/projects${`?${string}` | `#${string}` | ''}` | { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/projects` | `/projects`; params?: Router.UnknownInputParams; } | `/+not-found` | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } };
+      hrefInputParams: { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/collections`; params?: Router.UnknownInputParams; } | { pathname: `/compare`; params?: Router.UnknownInputParams; } | { pathname: `/settings`; params?: Router.UnknownInputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/activity` | `/activity`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/projects` | `/projects`; params?: Router.UnknownInputParams; } | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } } | { pathname: `/org/[name]/members`, params: Router.UnknownInputParams & { name: string | number; } } | { pathname: `/repo/[owner]/[name]`, params: Router.UnknownInputParams & { owner: string | number;name: string | number; } } | { pathname: `/repo/[owner]/[name]/issues/[number]`, params: Router.UnknownInputParams & { owner: string | number;name: string | number;number: string | number; } } | { pathname: `/repo/[owner]/[name]/issues`, params: Router.UnknownInputParams & { owner: string | number;name: string | number; } };
+      hrefOutputParams: { pathname: Router.RelativePathString, params?: Router.UnknownOutputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownOutputParams } | { pathname: `/collections`; params?: Router.UnknownOutputParams; } | { pathname: `/compare`; params?: Router.UnknownOutputParams; } | { pathname: `/settings`; params?: Router.UnknownOutputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/activity` | `/activity`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownOutputParams; } | { pathname: `${'/(tabs)'}/projects` | `/projects`; params?: Router.UnknownOutputParams; } | { pathname: `/+not-found`, params: Router.UnknownOutputParams & {  } } | { pathname: `/org/[name]/members`, params: Router.UnknownOutputParams & { name: string; } } | { pathname: `/repo/[owner]/[name]`, params: Router.UnknownOutputParams & { owner: string;name: string; } } | { pathname: `/repo/[owner]/[name]/issues/[number]`, params: Router.UnknownOutputParams & { owner: string;name: string;number: string; } } | { pathname: `/repo/[owner]/[name]/issues`, params: Router.UnknownOutputParams & { owner: string;name: string; } };
+      href: Router.RelativePathString | Router.ExternalPathString | `/collections${`?${string}` | `#${string}` | ''}` | `/compare${`?${string}` | `#${string}` | ''}` | `/settings${`?${string}` | `#${string}` | ''}` | `/_sitemap${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/activity${`?${string}` | `#${string}` | ''}` | `/activity${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}${`?${string}` | `#${string}` | ''}` | `/${`?${string}` | `#${string}` | ''}` | `${'/(tabs)'}/projects${`?${string}` | `#${string}` | ''}` | `/projects${`?${string}` | `#${string}` | ''}` | { pathname: Router.RelativePathString, params?: Router.UnknownInputParams } | { pathname: Router.ExternalPathString, params?: Router.UnknownInputParams } | { pathname: `/collections`; params?: Router.UnknownInputParams; } | { pathname: `/compare`; params?: Router.UnknownInputParams; } | { pathname: `/settings`; params?: Router.UnknownInputParams; } | { pathname: `/_sitemap`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/activity` | `/activity`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}` | `/`; params?: Router.UnknownInputParams; } | { pathname: `${'/(tabs)'}/projects` | `/projects`; params?: Router.UnknownInputParams; } | `/+not-found` | `/org/${Router.SingleRoutePart<T>}/members` | `/repo/${Router.SingleRoutePart<T>}/${Router.SingleRoutePart<T>}` | `/repo/${Router.SingleRoutePart<T>}/${Router.SingleRoutePart<T>}/issues/${Router.SingleRoutePart<T>}` | `/repo/${Router.SingleRoutePart<T>}/${Router.SingleRoutePart<T>}/issues` | { pathname: `/+not-found`, params: Router.UnknownInputParams & {  } } | { pathname: `/org/[name]/members`, params: Router.UnknownInputParams & { name: string | number; } } | { pathname: `/repo/[owner]/[name]`, params: Router.UnknownInputParams & { owner: string | number;name: string | number; } } | { pathname: `/repo/[owner]/[name]/issues/[number]`, params: Router.UnknownInputParams & { owner: string | number;name: string | number;number: string | number; } } | { pathname: `/repo/[owner]/[name]/issues`, params: Router.UnknownInputParams & { owner: string | number;name: string | number; } };
     }
   }
 }
@@ -1,22 +1,38 @@
+import { I18nManager } from 'react-native';
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
+import { useBreakpoint } from '@/hooks/useBreakpoint';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme } from '@/context/ThemeContext';
 
 export default function TabLayout() {
+  const { colors } = useTheme();
+  const { t } = useLocale();
+  const { wide } = useBreakpoint();
+  // The navigator resolves left and right against the native layout
+  // direction; on web the document direction flips them instead.
+  const railSide = I18nManager.isRTL ? 'right' : 'left';
+
   return (
     <Tabs
       screenOptions={{
         headerShown: false,
+        // A navigation rail at the start edge on wide screens.
+        tabBarPosition: wide ? railSide : 'bottom',
+        tabBarVariant: wide ? 'material' : 'uikit',
         tabBarStyle: {
-          backgroundColor: '#2D3748',
+          backgroundColor: colors.surface,
           borderTopWidth: 0,
+          borderLeftWidth: 0,
+          borderRightWidth: 0,
         },
-        tabBarActiveTintColor: '#4299E1',
-        tabBarInactiveTintColor: '#A0AEC0',
+        tabBarActiveTintColor: colors.primary,
+        tabBarInactiveTintColor: colors.textMuted,
       }}>
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Profile',
+          title: t('tabs.profile'),
           tabBarIcon: ({ size, color }) => (
             <Ionicons name="person" size={size} color={color} />
           ),
@@ -25,12 +41,21 @@ export default function TabLayout() {
       <Tabs.Screen
         name="projects"
         options={{
-          title: 'Projects',
+          title: t('tabs.projects'),
           tabBarIcon: ({ size, color }) => (
             <Ionicons name="code" size={size} color={color} />
           ),
         }}
       />
+      <Tabs.Screen
+        name="activity"
+        options={{
+          title: t('tabs.activity'),
+          tabBarIcon: ({ size, color }) => (
+            <Ionicons name="pulse" size={size} color={color} />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
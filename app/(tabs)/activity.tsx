@@ -0,0 +1,144 @@
+import { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ActivityCard } from '@/components/ActivityCard';
+import { ErrorView } from '@/components/ErrorView';
+import { SyncBanner } from '@/components/SyncBanner';
+import { useLocale } from '@/context/LocaleContext';
+import { useSettings } from '@/context/SettingsContext';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { groupByDay } from '@/lib/activity';
+import { getUserEventsPage, type GitHubEvent } from '@/lib/github';
+import type { ThemeColors } from '@/constants/theme';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+export default function ActivityScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { language, t } = useLocale();
+  const { username, ready } = useSettings();
+  const {
+    data,
+    syncedAt,
+    loading,
+    refreshing,
+    error,
+    refresh,
+    loadingMore,
+    loadMore,
+  } = usePagedQuery<GitHubEvent>(ready ? `events:${username}` : null, (next) =>
+    getUserEventsPage(username, next)
+  );
+  const sections = useMemo(
+    () => groupByDay(data?.items ?? [], language),
+    [data, language]
+  );
+
+  if (loading || (refreshing && !data)) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.loadingText}>{t('activity.loading')}</Text>
+      </View>
+    );
+  }
+
+  if (!data) {
+    return (
+      <ErrorView
+        title={t('activity.loadFailed')}
+        error={error}
+        onRetry={refresh}
+      />
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <SyncBanner syncedAt={syncedAt} failed={!!error} />
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <ActivityCard item={item} />}
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionTitle}>{section.title}</Text>
+        )}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.listContainer}
+        ListHeaderComponent={
+          <Text style={styles.headerTitle}>{t('activity.title')}</Text>
+        }
+        ListEmptyComponent={
+          <Text style={styles.emptyText}>{t('activity.empty')}</Text>
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refresh}
+            tintColor={colors.primary}
+          />
+        }
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? (
+            <ActivityIndicator
+              style={styles.listFooter}
+              color={colors.primary}
+            />
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    loadingText: {
+      color: colors.textMuted,
+      fontSize: 16,
+    },
+    listContainer: {
+      padding: 16,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    emptyText: {
+      color: colors.textMuted,
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    listFooter: {
+      paddingVertical: 16,
+    },
+  });
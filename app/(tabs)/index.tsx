@@ -1,344 +1,756 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   Image,
+  useWindowDimensions,
   ScrollView,
   Pressable,
   Linking,
+  RefreshControl,
 } from 'react-native';
-import Animated, {
-  FadeIn,
-  useAnimatedProps,
-  withSpring,
-  withTiming,
-} from 'react-native-reanimated';
+import Animated, { FadeIn } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { formatDistanceToNow } from 'date-fns';
-
-const AnimatedText = Animated.createAnimatedComponent(Text);
+import { Link, router } from 'expo-router';
+import { getLanguageColor } from '@/constants/languageColors';
+import { AnimatedCounter } from '@/components/AnimatedCounter';
+import { ContributionHeatmap } from '@/components/ContributionHeatmap';
+import { ErrorView } from '@/components/ErrorView';
+import { LanguageDonut } from '@/components/LanguageDonut';
+import { PageMeta } from '@/components/PageMeta';
+import { ShareCardModal } from '@/components/ShareCardModal';
+import { SyncBanner } from '@/components/SyncBanner';
+import { useCollections } from '@/context/CollectionsContext';
+import { useLocale } from '@/context/LocaleContext';
+import { useSettings } from '@/context/SettingsContext';
+import { useBreakpoint } from '@/hooks/useBreakpoint';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import {
+  getUser,
+  getAllUserEvents,
+  getAllUserRepos,
+  getAllOrgRepos,
+  getContributionCalendar,
+  getOrganization,
+  getOrgMembersPage,
+  isOrganization,
+  type GitHubProfile,
+  type Organization,
+  type OrgMember,
+  type Repository,
+} from '@/lib/github';
+import {
+  countCalendarDays,
+  countEvents,
+  type DailyCounts,
+} from '@/lib/contributions';
+import { sameRepo } from '@/lib/collections';
+import { describeRepo, describeStat, formatDate } from '@/lib/format';
+import { aggregateLanguages, toShares } from '@/lib/languages';
+import { getStaticAccount } from '@/lib/staticData';
+import type { ThemeColors } from '@/constants/theme';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
 
-interface GitHubProfile {
-  avatar_url: string;
-  name: string;
-  bio: string;
-  public_repos: number;
-  followers: number;
+interface ProfileData {
+  profile: GitHubProfile;
+  repos: Repository[];
+  organization?: Organization;
+  members?: OrgMember[];
 }
 
-interface Repository {
-  name: string;
-  description: string;
-  stargazers_count: number;
-  language: string;
-  updated_at: string;
-  created_at: string;
-}
+// Number of member avatars previewed on an organization profile.
+const MEMBER_PREVIEW = 12;
+
+// Narrowest a stat card gets at the default text size. Larger text widens
+// it, wrapping the cards onto more rows rather than clipping their labels.
+const STAT_MIN_WIDTH = 96;
+
+// `blog` is free-form and often lacks a scheme.
+const toUrl = (blog: string) =>
+  /^https?:\/\//i.test(blog) ? blog : `https://${blog}`;
+
+const toDomain = (blog: string) =>
+  blog.replace(/^https?:\/\//i, '').replace(/\/$/, '');
 
 export default function ProfileScreen() {
-  const [profile, setProfile] = useState<GitHubProfile | null>(null);
-  const [topRepos, setTopRepos] = useState<Repository[]>([]);
-  const [totalStars, setTotalStars] = useState(0);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { username, tokenLogin, ready } = useSettings();
+  const { wide } = useBreakpoint();
+  const { fontScale } = useWindowDimensions();
+  const { pinned } = useCollections();
+  const [sharing, setSharing] = useState(false);
+  const { data, syncedAt, loading, refreshing, error, refresh } =
+    useCachedQuery<ProfileData>(
+      ready ? `profile:${username}` : null,
+      async () => {
+        const profile = await getUser(username);
+        if (!isOrganization(profile)) {
+          return { profile, repos: await getAllUserRepos(username) };
+        }
+        const [organization, repos, members] = await Promise.all([
+          getOrganization(username),
+          getAllOrgRepos(username),
+          getOrgMembersPage(username),
+        ]);
+        return { profile, repos, organization, members: members.items };
+      },
+      getStaticAccount(username)
+    );
+  const profile = data?.profile;
+  const organization = data?.organization;
+  const isOrg = !!profile && isOrganization(profile);
+  const blog = profile?.blog;
+
+  // Calculate total stars
+  const totalStars = useMemo(
+    () =>
+      data?.repos.reduce((acc, repo) => acc + repo.stargazers_count, 0) ?? 0,
+    [data]
+  );
 
-  useEffect(() => {
-    fetchGitHubData();
-  }, []);
+  // The GraphQL calendar needs a token; without one fall back to the public
+  // events API, which only reaches back 90 days. Organizations have no
+  // contribution calendar of their own.
+  const contributions = useCachedQuery<DailyCounts>(
+    ready && profile && !isOrg
+      ? `contributions:${username}:${tokenLogin ? 'graphql' : 'events'}`
+      : null,
+    async () =>
+      tokenLogin
+        ? countCalendarDays(await getContributionCalendar(username))
+        : countEvents(await getAllUserEvents(username))
+  );
 
-  const fetchGitHubData = async () => {
-    try {
-      const [profileResponse, reposResponse] = await Promise.all([
-        fetch('https://api.github.com/users/idanDayani'),
-        fetch('https://api.github.com/users/idanDayani/repos'),
-      ]);
+  const refreshAll = () => {
+    refresh();
+    if (!isOrg) contributions.refresh();
+  };
 
-      if (!profileResponse.ok || !reposResponse.ok) {
-        throw new Error('Failed to fetch GitHub data');
-      }
+  const languageTotals = useMemo(
+    () => aggregateLanguages(data?.repos ?? []),
+    [data]
+  );
+  const languageShares = useMemo(
+    () => toShares(languageTotals),
+    [languageTotals]
+  );
 
-      const profileData = await profileResponse.json();
-      const reposData = await reposResponse.json();
+  // Pinned repos replace the top 3 by stars, in the order they were pinned
+  const pinnedRepos = useMemo(() => {
+    const order = (repo: Repository) =>
+      pinned.findIndex((name) => sameRepo(name, repo.full_name));
+    return (data?.repos ?? [])
+      .filter((repo) => order(repo) !== -1)
+      .sort((a, b) => order(a) - order(b));
+  }, [data, pinned]);
+  const topRepos = useMemo(
+    () =>
+      pinnedRepos.length
+        ? pinnedRepos
+        : [...(data?.repos ?? [])]
+            .sort((a, b) => b.stargazers_count - a.stargazers_count)
+            .slice(0, 3),
+    [data, pinnedRepos]
+  );
 
-      // Calculate total stars
-      const stars = reposData.reduce((acc: number, repo: Repository) => acc + repo.stargazers_count, 0);
-      setTotalStars(stars);
+  const cardData = useMemo(
+    () => ({
+      name: profile?.name || profile?.login || username,
+      login: profile?.login ?? username,
+      bio: organization?.description ?? profile?.bio ?? null,
+      repos: profile?.public_repos ?? 0,
+      followers: profile?.followers ?? 0,
+      stars: totalStars,
+      languages: languageShares,
+      topRepos: topRepos.map((repo) => ({
+        name: repo.name,
+        stars: repo.stargazers_count,
+      })),
+    }),
+    [profile, organization, username, totalStars, languageShares, topRepos]
+  );
 
-      // Sort repos by stars and get top 3
-      const sortedRepos = reposData.sort((a: Repository, b: Repository) => 
-        b.stargazers_count - a.stargazers_count
-      ).slice(0, 3);
+  const meta = (
+    <PageMeta
+      title={profile?.name || profile?.login || username}
+      description={
+        profile &&
+        (profile.bio ||
+          t('seo.profileDescription', {
+            name: profile.name || profile.login,
+            repos: profile.public_repos,
+            followers: profile.followers,
+          }))
+      }
+      path="/"
+      image={profile?.avatar_url}
+    />
+  );
 
-      setProfile(profileData);
-      setTopRepos(sortedRepos);
-    } catch (err) {
-      setError('Failed to load profile data');
-    } finally {
-      setLoading(false);
-    }
-  };
+  const statCardStyle = [
+    styles.statCard,
+    { minWidth: STAT_MIN_WIDTH * fontScale },
+  ];
 
-  if (loading) {
+  if (loading || (refreshing && !data)) {
     return (
       <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>Loading...</Text>
+        {meta}
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
       </View>
     );
   }
 
-  if (error) {
+  if (!data) {
     return (
-      <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
-      </View>
+      <>
+        {meta}
+        <ErrorView
+          title={t('profile.loadFailed')}
+          error={error}
+          onRetry={refresh}
+        />
+      </>
     );
   }
 
   return (
     <SafeAreaView style={styles.container}>
-      <ScrollView>
-        <Animated.View
-          entering={FadeIn.duration(1000)}
-          style={styles.heroSection}>
-          <Image
-            source={{ uri: profile?.avatar_url }}
-            style={styles.avatar}
+      {meta}
+      <SyncBanner syncedAt={syncedAt} failed={!!error} />
+      <ScrollView
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refreshAll}
+            tintColor={colors.primary}
           />
-          <Text style={styles.name}>Idan Dayani</Text>
-          <Text style={styles.role}>Full Stack Developer & Team Lead</Text>
-        </Animated.View>
+        }>
+        <View style={wide && styles.columns}>
+          <View style={wide && styles.column}>
+            <Animated.View
+              entering={FadeIn.duration(1000)}
+              style={styles.heroSection}>
+              <View style={styles.headerActions}>
+                <Pressable
+                  style={styles.headerButton}
+                  onPress={() => setSharing(true)}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('a11y.shareCard')}>
+                  <Ionicons
+                    name="share-social-outline"
+                    size={24}
+                    color={colors.textMuted}
+                  />
+                </Pressable>
+                <Link
+                  href={{ pathname: '/compare', params: { users: username } }}
+                  asChild>
+                  <Pressable
+                    style={styles.headerButton}
+                    accessibilityRole="link"
+                    accessibilityLabel={t('a11y.compare')}>
+                    <Ionicons
+                      name="people-outline"
+                      size={24}
+                      color={colors.textMuted}
+                    />
+                  </Pressable>
+                </Link>
+                <Link href="/collections" asChild>
+                  <Pressable
+                    style={styles.headerButton}
+                    accessibilityRole="link"
+                    accessibilityLabel={t('a11y.collections')}>
+                    <Ionicons
+                      name="bookmarks-outline"
+                      size={24}
+                      color={colors.textMuted}
+                    />
+                  </Pressable>
+                </Link>
+                <Link href="/settings" asChild>
+                  <Pressable
+                    style={styles.headerButton}
+                    accessibilityRole="link"
+                    accessibilityLabel={t('settings.title')}>
+                    <Ionicons
+                      name="settings-outline"
+                      size={24}
+                      color={colors.textMuted}
+                    />
+                  </Pressable>
+                </Link>
+              </View>
+              <Image
+                source={{ uri: profile?.avatar_url }}
+                style={styles.avatar}
+              />
+              <Text style={styles.name} accessibilityRole="header">
+                {profile?.name || profile?.login}
+              </Text>
+              {organization?.description ? (
+                <Text style={styles.role}>{organization.description}</Text>
+              ) : (
+                profile?.bio && <Text style={styles.role}>{profile.bio}</Text>
+              )}
+              <View style={styles.metaRow}>
+                {organization?.is_verified && (
+                  <View style={styles.metaItem}>
+                    <Ionicons
+                      name="shield-checkmark"
+                      size={16}
+                      color={colors.success}
+                    />
+                    <Text style={styles.verifiedText}>{t('org.verified')}</Text>
+                  </View>
+                )}
+                {profile?.location && (
+                  <View style={styles.metaItem}>
+                    <Ionicons
+                      name="location-outline"
+                      size={16}
+                      color={colors.textMuted}
+                    />
+                    <Text style={styles.metaText}>{profile.location}</Text>
+                  </View>
+                )}
+                {blog && (
+                  <Pressable
+                    style={styles.metaItem}
+                    onPress={() => Linking.openURL(toUrl(blog))}
+                    accessibilityRole="link">
+                    <Ionicons
+                      name="link-outline"
+                      size={16}
+                      color={colors.link}
+                    />
+                    <Text style={styles.linkText}>{toDomain(blog)}</Text>
+                  </Pressable>
+                )}
+              </View>
+            </Animated.View>
 
-        <View style={styles.statsContainer}>
-          <View style={styles.statCard}>
-            <Ionicons name="git-branch" size={24} color="#4299E1" />
-            <AnimatedText style={styles.statNumber}>
-              {profile?.public_repos}
-            </AnimatedText>
-            <Text style={styles.statLabel}>Repositories</Text>
-          </View>
+            <View style={styles.statsContainer}>
+              <View
+                style={statCardStyle}
+                accessible
+                accessibilityLabel={describeStat(
+                  profile?.public_repos ?? 0,
+                  t('profile.repositories')
+                )}>
+                <Ionicons name="git-branch" size={24} color={colors.primary} />
+                <AnimatedCounter
+                  value={profile?.public_repos ?? 0}
+                  style={styles.statNumber}
+                />
+                <Text style={styles.statLabel}>
+                  {t('profile.repositories')}
+                </Text>
+              </View>
 
-          <View style={styles.statCard}>
-            <Ionicons name="people" size={24} color="#4299E1" />
-            <AnimatedText style={styles.statNumber}>
-              {profile?.followers}
-            </AnimatedText>
-            <Text style={styles.statLabel}>Followers</Text>
-          </View>
+              <View
+                style={statCardStyle}
+                accessible
+                accessibilityLabel={describeStat(
+                  profile?.followers ?? 0,
+                  t('profile.followers')
+                )}>
+                <Ionicons name="people" size={24} color={colors.primary} />
+                <AnimatedCounter
+                  value={profile?.followers ?? 0}
+                  style={styles.statNumber}
+                />
+                <Text style={styles.statLabel}>{t('profile.followers')}</Text>
+              </View>
 
-          <View style={styles.statCard}>
-            <Ionicons name="star" size={24} color="#4299E1" />
-            <AnimatedText style={styles.statNumber}>
-              {totalStars}
-            </AnimatedText>
-            <Text style={styles.statLabel}>Total Stars</Text>
-          </View>
-        </View>
+              <View
+                style={statCardStyle}
+                accessible
+                accessibilityLabel={describeStat(
+                  totalStars,
+                  t('profile.totalStars')
+                )}>
+                <Ionicons name="star" size={24} color={colors.primary} />
+                <AnimatedCounter value={totalStars} style={styles.statNumber} />
+                <Text style={styles.statLabel}>{t('profile.totalStars')}</Text>
+              </View>
+            </View>
 
-        <View style={styles.topReposSection}>
-          <Text style={styles.sectionTitle}>Top Repositories</Text>
-          {topRepos.map((repo) => (
-            <View key={repo.name} style={styles.repoCard}>
-              <View style={styles.repoHeader}>
-                <Text style={styles.repoName}>{repo.name}</Text>
-                <View style={styles.repoStats}>
-                  <Ionicons name="star" size={16} color="#F6E05E" />
-                  <Text style={styles.repoStars}>{repo.stargazers_count}</Text>
+            {isOrg && !!data.members?.length && (
+              <View style={styles.membersSection}>
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle} accessibilityRole="header">
+                    {t('org.members')}
+                  </Text>
+                  <Link
+                    href={{
+                      pathname: '/org/[name]/members',
+                      params: { name: username },
+                    }}
+                    asChild>
+                    <Pressable accessibilityRole="link">
+                      <Text style={styles.linkText}>{t('org.seeAll')}</Text>
+                    </Pressable>
+                  </Link>
                 </View>
-              </View>
-              {repo.description && (
-                <Text style={styles.repoDescription} numberOfLines={2}>
-                  {repo.description}
-                </Text>
-              )}
-              <View style={styles.repoFooter}>
-                <View style={styles.repoMetadata}>
-                  {repo.language && (
-                    <View style={styles.languageContainer}>
-                      <View
-                        style={[
-                          styles.languageDot,
-                          { backgroundColor: '#4299E1' },
-                        ]}
+                <View style={styles.memberAvatars}>
+                  {data.members.slice(0, MEMBER_PREVIEW).map((member) => (
+                    <Pressable
+                      key={member.id}
+                      onPress={() => Linking.openURL(member.html_url)}
+                      accessibilityRole="link"
+                      accessibilityLabel={t('a11y.member', {
+                        login: member.login,
+                      })}>
+                      <Image
+                        source={{ uri: member.avatar_url }}
+                        style={styles.memberAvatar}
                       />
-                      <Text style={styles.languageText}>{repo.language}</Text>
-                    </View>
-                  )}
-                  <Text style={styles.dateText}>
-                    Created {formatDistanceToNow(new Date(repo.created_at))} ago
-                  </Text>
+                    </Pressable>
+                  ))}
                 </View>
-                <Text style={styles.updatedAt}>
-                  Updated {formatDistanceToNow(new Date(repo.updated_at))} ago
+              </View>
+            )}
+          </View>
+          <View style={wide && styles.column}>
+            {contributions.data && (
+              <View style={styles.activitySection}>
+                <Text style={styles.sectionTitle} accessibilityRole="header">
+                  {t('profile.contributionActivity')}
                 </Text>
+                <ContributionHeatmap
+                  counts={contributions.data}
+                  weeks={tokenLogin ? 53 : 13}
+                />
               </View>
+            )}
+
+            {languageShares.length > 0 && (
+              <View style={styles.languagesSection}>
+                <Text style={styles.sectionTitle} accessibilityRole="header">
+                  {t('profile.languages')}
+                </Text>
+                <LanguageDonut
+                  shares={languageShares}
+                  languageCount={Object.keys(languageTotals).length}
+                />
+              </View>
+            )}
+
+            <View style={styles.topReposSection}>
+              <Text style={styles.sectionTitle} accessibilityRole="header">
+                {pinnedRepos.length
+                  ? t('profile.pinnedRepositories')
+                  : t('profile.topRepositories')}
+              </Text>
+              {topRepos.map((repo) => (
+                <Pressable
+                  key={repo.id}
+                  style={styles.repoCard}
+                  onPress={() =>
+                    router.push({
+                      pathname: '/repo/[owner]/[name]',
+                      params: { owner: repo.owner.login, name: repo.name },
+                    })
+                  }
+                  accessibilityRole="button"
+                  accessibilityLabel={describeRepo(repo)}
+                  accessibilityHint={t('a11y.openRepo')}>
+                  <View style={styles.repoHeader}>
+                    <Text style={styles.repoName}>{repo.name}</Text>
+                    <View style={styles.repoStats}>
+                      <Ionicons name="star" size={16} color={colors.star} />
+                      <Text style={styles.repoStars}>
+                        {repo.stargazers_count}
+                      </Text>
+                    </View>
+                  </View>
+                  {repo.description && (
+                    <Text style={styles.repoDescription} numberOfLines={2}>
+                      {repo.description}
+                    </Text>
+                  )}
+                  <View style={styles.repoFooter}>
+                    <View style={styles.repoMetadata}>
+                      {repo.language && (
+                        <View style={styles.languageContainer}>
+                          <View
+                            style={[
+                              styles.languageDot,
+                              {
+                                backgroundColor: getLanguageColor(
+                                  repo.language
+                                ),
+                              },
+                            ]}
+                          />
+                          <Text style={styles.languageText}>
+                            {repo.language}
+                          </Text>
+                        </View>
+                      )}
+                      <Text style={styles.dateText}>
+                        {t('common.created', {
+                          time: formatDate(repo.created_at),
+                        })}
+                      </Text>
+                    </View>
+                    <Text style={styles.updatedAt}>
+                      {t('common.updated', {
+                        time: formatDate(repo.updated_at),
+                      })}
+                    </Text>
+                  </View>
+                </Pressable>
+              ))}
             </View>
-          ))}
-        </View>
 
-        <Pressable
-          style={styles.githubButton}
-          onPress={() => Linking.openURL('https://github.com/idanDayani')}>
-          <Ionicons name="logo-github" size={24} color="white" />
-          <Text style={styles.githubButtonText}>Follow on GitHub</Text>
-        </Pressable>
+            <Pressable
+              style={styles.githubButton}
+              onPress={() =>
+                Linking.openURL(
+                  profile?.html_url ?? `https://github.com/${username}`
+                )
+              }
+              accessibilityRole="link"
+              accessibilityHint={t('a11y.openInBrowser')}>
+              <Ionicons name="logo-github" size={24} color={colors.onPrimary} />
+              <Text style={styles.githubButtonText}>{t('profile.follow')}</Text>
+            </Pressable>
+          </View>
+        </View>
       </ScrollView>
+      {profile && (
+        <ShareCardModal
+          visible={sharing}
+          onClose={() => setSharing(false)}
+          data={cardData}
+          avatarUrl={profile.avatar_url}
+        />
+      )}
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#1A202C',
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: '#1A202C',
-  },
-  loadingText: {
-    color: '#A0AEC0',
-    fontSize: 16,
-  },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: '#1A202C',
-  },
-  errorText: {
-    color: '#FC8181',
-    fontSize: 16,
-  },
-  heroSection: {
-    alignItems: 'center',
-    padding: 20,
-    marginTop: 20,
-  },
-  avatar: {
-    width: 150,
-    height: 150,
-    borderRadius: 75,
-    marginBottom: 20,
-  },
-  name: {
-    fontSize: 28,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 8,
-  },
-  role: {
-    fontSize: 18,
-    color: '#A0AEC0',
-  },
-  statsContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    padding: 20,
-  },
-  statCard: {
-    backgroundColor: '#2D3748',
-    padding: 20,
-    borderRadius: 12,
-    alignItems: 'center',
-    width: '30%',
-  },
-  statNumber: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: 'white',
-    marginVertical: 8,
-  },
-  statLabel: {
-    fontSize: 14,
-    color: '#A0AEC0',
-  },
-  topReposSection: {
-    padding: 20,
-  },
-  sectionTitle: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 16,
-  },
-  repoCard: {
-    backgroundColor: '#2D3748',
-    padding: 16,
-    borderRadius: 8,
-    marginBottom: 12,
-  },
-  repoHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  repoName: {
-    fontSize: 16,
-    color: 'white',
-    flex: 1,
-  },
-  repoDescription: {
-    fontSize: 14,
-    color: '#A0AEC0',
-    marginBottom: 12,
-  },
-  repoStats: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  repoStars: {
-    color: 'white',
-    marginLeft: 4,
-  },
-  repoFooter: {
-    flexDirection: 'column',
-    gap: 8,
-  },
-  repoMetadata: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 12,
-  },
-  languageContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  languageDot: {
-    width: 8,
-    height: 8,
-    borderRadius: 4,
-    marginRight: 6,
-  },
-  languageText: {
-    color: '#A0AEC0',
-    fontSize: 14,
-  },
-  dateText: {
-    color: '#A0AEC0',
-    fontSize: 14,
-  },
-  updatedAt: {
-    color: '#A0AEC0',
-    fontSize: 12,
-  },
-  githubButton: {
-    backgroundColor: '#4299E1',
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: 16,
-    borderRadius: 8,
-    margin: 20,
-  },
-  githubButtonText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: 'bold',
-    marginLeft: 8,
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    loadingText: {
+      color: colors.textMuted,
+      fontSize: 16,
+    },
+    // Side by side on wide screens: the account on one side, its activity and
+    // repositories on the other.
+    columns: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+    },
+    column: {
+      flex: 1,
+    },
+    heroSection: {
+      alignItems: 'center',
+      padding: 20,
+      // Leaves room for the header actions above the avatar.
+      paddingTop: 48,
+      marginTop: 20,
+    },
+    headerActions: {
+      position: 'absolute',
+      top: 0,
+      end: 20,
+      flexDirection: 'row',
+    },
+    headerButton: {
+      padding: 8,
+    },
+    avatar: {
+      width: 150,
+      height: 150,
+      borderRadius: 75,
+      marginBottom: 20,
+    },
+    name: {
+      fontSize: 28,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    role: {
+      fontSize: 18,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    metaRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      gap: 16,
+      marginTop: 12,
+    },
+    metaItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    metaText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    verifiedText: {
+      color: colors.success,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+    linkText: {
+      color: colors.link,
+      fontSize: 14,
+    },
+    statsContainer: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+      padding: 20,
+    },
+    statCard: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      paddingVertical: 20,
+      paddingHorizontal: 8,
+      borderRadius: 12,
+      alignItems: 'center',
+    },
+    statNumber: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginVertical: 8,
+    },
+    statLabel: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    activitySection: {
+      paddingHorizontal: 20,
+    },
+    membersSection: {
+      padding: 20,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+    },
+    memberAvatars: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    memberAvatar: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+    },
+    languagesSection: {
+      padding: 20,
+    },
+    topReposSection: {
+      padding: 20,
+    },
+    sectionTitle: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 16,
+    },
+    repoCard: {
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 8,
+      marginBottom: 12,
+    },
+    repoHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    repoName: {
+      fontSize: 16,
+      color: colors.text,
+      flex: 1,
+    },
+    repoDescription: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginBottom: 12,
+    },
+    repoStats: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    repoStars: {
+      color: colors.text,
+      marginStart: 4,
+    },
+    repoFooter: {
+      flexDirection: 'column',
+      gap: 8,
+    },
+    repoMetadata: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    languageContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    languageDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginEnd: 6,
+    },
+    languageText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    dateText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    updatedAt: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    githubButton: {
+      backgroundColor: colors.primary,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 16,
+      borderRadius: 8,
+      margin: 20,
+    },
+    githubButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontWeight: 'bold',
+      marginStart: 8,
+    },
+  });
\ No newline at end of file
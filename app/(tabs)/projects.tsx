@@ -1,87 +1,183 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   FlatList,
   Pressable,
-  Modal,
-  ScrollView,
-  Linking,
+  ActivityIndicator,
+  RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { formatDistanceToNow, isValid } from 'date-fns';
-
-interface Repository {
-  id: number;
-  name: string;
-  description: string;
-  stargazers_count: number;
-  language: string;
-  created_at: string;
-  updated_at: string;
-  html_url: string;
-  forks_count: number;
-  open_issues_count: number;
-  topics: string[];
-}
-
-const languageColors: { [key: string]: string } = {
-  JavaScript: '#F7DF1E',
-  TypeScript: '#3178C6',
-  Python: '#3776AB',
-  Java: '#B07219',
-  'C++': '#F34B7D',
-  Ruby: '#CC342D',
-  default: '#A0AEC0',
-};
-
-// Helper function to safely format dates
-const formatDate = (dateString: string | undefined | null) => {
-  if (!dateString) return 'N/A';
-  const date = new Date(dateString);
-  return isValid(date) ? formatDistanceToNow(date) + ' ago' : 'N/A';
-};
+import { useIsFocused } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { getLanguageColor } from '@/constants/languageColors';
+import { ErrorView } from '@/components/ErrorView';
+import { PageMeta } from '@/components/PageMeta';
+import { RepoDetails } from '@/components/RepoDetails';
+import { RepoFilterBar } from '@/components/RepoFilterBar';
+import { SyncBanner } from '@/components/SyncBanner';
+import { useCollections } from '@/context/CollectionsContext';
+import { useLocale } from '@/context/LocaleContext';
+import { useSettings } from '@/context/SettingsContext';
+import { useBreakpoint } from '@/hooks/useBreakpoint';
+import { useKeyDown } from '@/hooks/useKeyDown';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { useRepoFilters } from '@/hooks/useRepoFilters';
+import {
+  getOrgReposPage,
+  getUser,
+  getUserReposPage,
+  isOrganization,
+  type GitHubProfile,
+  type Repository,
+} from '@/lib/github';
+import { describeRepo, formatDate } from '@/lib/format';
+import {
+  applyFilters,
+  languagesOf,
+  needsEveryRepo,
+  topicsOf,
+} from '@/lib/repoFilters';
+import { getStaticAccount } from '@/lib/staticData';
+import type { ThemeColors } from '@/constants/theme';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
 
 export default function ProjectsScreen() {
-  const [repositories, setRepositories] = useState<Repository[]>([]);
-  const [selectedRepo, setSelectedRepo] = useState<Repository | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { username, ready } = useSettings();
+  const { isPinned, togglePinned } = useCollections();
+  const [filters, setFilters] = useRepoFilters();
+  const { wide, expanded } = useBreakpoint();
+  // Tabs stay mounted once visited, so only listen while this one is shown.
+  const isFocused = useIsFocused();
+  // Wide windows show a grid, or next to the details pane a single column.
+  const columns = wide && !expanded ? 2 : 1;
+  // Repo shown in the details pane on expanded windows.
+  const [selected, setSelected] = useState<Repository | null>(null);
+  const staticAccount = getStaticAccount(username);
+  const account = useCachedQuery<GitHubProfile>(
+    ready ? `account:${username}` : null,
+    () => getUser(username),
+    staticAccount?.profile ?? null
+  );
+  const isOrg = !!account.data && isOrganization(account.data);
+  const repoType = isOrg ? filters.type : 'all';
+  // Organizations list their repos from a different endpoint, which also
+  // supports filtering by type. If the account can't be resolved, fall back
+  // to the user endpoint, which serves organizations too.
+  const {
+    data,
+    syncedAt,
+    loading,
+    refreshing,
+    error,
+    refresh,
+    hasMore,
+    loadingMore,
+    loadMoreFailed,
+    loadMore,
+  } = usePagedQuery<Repository>(
+    ready && !account.loading ? `repos:${username}:${repoType}` : null,
+    (next) =>
+      isOrg
+        ? getOrgReposPage(username, repoType, next)
+        : getUserReposPage(username, next),
+    // The exported list is every repo, unfiltered by type.
+    staticAccount && repoType === 'all'
+      ? { items: staticAccount.repos, next: null }
+      : null
+  );
+  // Sorting, filtering and the language and topic choices only see loaded
+  // repos, so fetch the remaining pages unless the list is in API order.
   useEffect(() => {
-    fetchRepositories();
-  }, []);
-
-  const fetchRepositories = async () => {
-    try {
-      const response = await fetch(
-        'https://api.github.com/users/idanDayani/repos'
-      );
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch repositories');
-      }
+    if (needsEveryRepo(filters) && hasMore && !loadingMore && !loadMoreFailed) {
+      loadMore();
+    }
+  }, [filters, hasMore, loadingMore, loadMoreFailed, loadMore]);
+  const loadedRepos = useMemo(() => data?.items ?? [], [data]);
+  const repositories = useMemo(
+    () => applyFilters(loadedRepos, filters),
+    [loadedRepos, filters]
+  );
+  const languages = useMemo(() => languagesOf(loadedRepos), [loadedRepos]);
+  const topics = useMemo(() => topicsOf(loadedRepos), [loadedRepos]);
 
-      const data = await response.json();
-      // Sort repositories by stars
-      const sortedData = data.sort((a: Repository, b: Repository) => 
-        b.stargazers_count - a.stargazers_count
-      );
-      setRepositories(sortedData);
-    } catch (err) {
-      setError('Failed to load repositories');
-    } finally {
-      setLoading(false);
+  const openRepository = (repo: Repository) => {
+    if (expanded) {
+      setSelected(repo);
+      return;
     }
+    router.push({
+      pathname: '/repo/[owner]/[name]',
+      params: { owner: repo.owner.login, name: repo.name },
+    });
   };
 
+  // Arrow keys step through the list on web, Escape clears the details pane.
+  useKeyDown((key) => {
+    if (key === 'Escape') {
+      setSelected(null);
+      return true;
+    }
+    const step = key === 'ArrowDown' ? 1 : key === 'ArrowUp' ? -1 : 0;
+    if (!step || !repositories.length) return false;
+    const index = repositories.findIndex((repo) => repo.id === selected?.id);
+    const next =
+      index === -1
+        ? 0
+        : Math.min(Math.max(index + step, 0), repositories.length - 1);
+    setSelected(repositories[next]);
+    return true;
+  }, expanded && isFocused);
+
   const renderRepository = ({ item }: { item: Repository }) => (
     <Pressable
-      style={styles.repoCard}
-      onPress={() => setSelectedRepo(item)}>
-      <Text style={styles.repoName}>{item.name}</Text>
+      style={[
+        styles.repoCard,
+        columns > 1 && styles.gridCard,
+        expanded && selected?.id === item.id && styles.selectedCard,
+      ]}
+      onPress={() => openRepository(item)}
+      accessibilityRole="button"
+      // Nested buttons can't be reached inside a labelled card on native, so
+      // pinning is offered as an action on the card too.
+      accessibilityActions={[
+        {
+          name: 'togglePin',
+          label: isPinned(item.full_name) ? t('a11y.unpin') : t('a11y.pin'),
+        },
+      ]}
+      onAccessibilityAction={(event) => {
+        if (event.nativeEvent.actionName === 'togglePin') {
+          togglePinned(item.full_name);
+        }
+      }}
+      accessibilityLabel={describeRepo(item)}
+      accessibilityHint={expanded ? t('a11y.showRepo') : t('a11y.openRepo')}
+      accessibilityState={
+        expanded ? { selected: selected?.id === item.id } : undefined
+      }>
+      <View style={styles.repoHeader}>
+        <Text style={styles.repoName}>{item.name}</Text>
+        <Pressable
+          onPress={() => togglePinned(item.full_name)}
+          hitSlop={8}
+          accessibilityRole="button"
+          accessibilityLabel={
+            isPinned(item.full_name) ? t('a11y.unpin') : t('a11y.pin')
+          }>
+          <Ionicons
+            name={isPinned(item.full_name) ? 'pin' : 'pin-outline'}
+            size={18}
+            color={isPinned(item.full_name) ? colors.star : colors.textSubtle}
+          />
+        </Pressable>
+      </View>
       {item.description && (
         <Text style={styles.repoDescription} numberOfLines={2}>
           {item.description}
@@ -95,10 +191,7 @@ export default function ProjectsScreen() {
               <View
                 style={[
                   styles.languageDot,
-                  {
-                    backgroundColor:
-                      languageColors[item.language] || languageColors.default,
-                  },
+                  { backgroundColor: getLanguageColor(item.language) },
                 ]}
               />
               <Text style={styles.languageText}>{item.language}</Text>
@@ -106,338 +199,281 @@ export default function ProjectsScreen() {
           )}
           
           <View style={styles.starContainer}>
-            <Ionicons name="star" size={16} color="#F6E05E" />
+            <Ionicons name="star" size={16} color={colors.star} />
             <Text style={styles.starCount}>{item.stargazers_count}</Text>
           </View>
         </View>
         
         <View style={styles.dates}>
           <Text style={styles.dateText}>
-            Created {formatDate(item.created_at)}
+            {t('common.created', { time: formatDate(item.created_at) })}
           </Text>
           <Text style={styles.updatedAt}>
-            Updated {formatDate(item.updated_at)}
+            {t('common.updated', { time: formatDate(item.updated_at) })}
           </Text>
         </View>
       </View>
     </Pressable>
   );
 
-  const RepoDetailsModal = () => (
-    <Modal
-      visible={!!selectedRepo}
-      animationType="slide"
-      transparent={true}
-      onRequestClose={() => setSelectedRepo(null)}>
-      <View style={styles.modalContainer}>
-        <View style={styles.modalContent}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>{selectedRepo?.name}</Text>
-            <Pressable
-              onPress={() => setSelectedRepo(null)}
-              style={styles.closeButton}>
-              <Ionicons name="close" size={24} color="white" />
-            </Pressable>
-          </View>
-
-          <ScrollView style={styles.modalScroll}>
-            <Text style={styles.modalDescription}>
-              {selectedRepo?.description || 'No description available'}
-            </Text>
-
-            <View style={styles.statsGrid}>
-              <View style={styles.statItem}>
-                <Ionicons name="star" size={20} color="#F6E05E" />
-                <Text style={styles.statNumber}>
-                  {selectedRepo?.stargazers_count || 0}
-                </Text>
-                <Text style={styles.statLabel}>Stars</Text>
-              </View>
-
-              <View style={styles.statItem}>
-                <Ionicons name="git-network" size={20} color="#4299E1" />
-                <Text style={styles.statNumber}>
-                  {selectedRepo?.forks_count || 0}
-                </Text>
-                <Text style={styles.statLabel}>Forks</Text>
-              </View>
-
-              <View style={styles.statItem}>
-                <Ionicons name="alert-circle" size={20} color="#FC8181" />
-                <Text style={styles.statNumber}>
-                  {selectedRepo?.open_issues_count || 0}
-                </Text>
-                <Text style={styles.statLabel}>Issues</Text>
-              </View>
-            </View>
-
-            <View style={styles.datesContainer}>
-              <Text style={styles.dateText}>
-                Created {formatDate(selectedRepo?.created_at)}
-              </Text>
-              <Text style={styles.dateText}>
-                Last updated {formatDate(selectedRepo?.updated_at)}
-              </Text>
-            </View>
-
-            {selectedRepo?.topics && selectedRepo.topics.length > 0 && (
-              <View style={styles.topicsContainer}>
-                <Text style={styles.topicsTitle}>Topics</Text>
-                <View style={styles.topicsList}>
-                  {selectedRepo.topics.map((topic) => (
-                    <View key={topic} style={styles.topicTag}>
-                      <Text style={styles.topicText}>{topic}</Text>
-                    </View>
-                  ))}
-                </View>
-              </View>
-            )}
-
-            <Pressable
-              style={styles.viewOnGithubButton}
-              onPress={() => {
-                if (selectedRepo?.html_url) {
-                  Linking.openURL(selectedRepo.html_url);
-                }
-              }}>
-              <Ionicons name="logo-github" size={20} color="white" />
-              <Text style={styles.viewOnGithubText}>View on GitHub</Text>
-            </Pressable>
-          </ScrollView>
-        </View>
-      </View>
-    </Modal>
+  const profile = account.data;
+  const meta = (
+    <PageMeta
+      title={t('projects.title')}
+      description={t('seo.projectsDescription', {
+        name: profile?.name || profile?.login || username,
+      })}
+      path="/projects"
+      image={profile?.avatar_url}
+    />
   );
 
-  if (loading) {
+  if (loading || (refreshing && !data)) {
     return (
       <View style={styles.loadingContainer}>
-        <Text style={styles.loadingText}>Loading repositories...</Text>
+        {meta}
+        <Text style={styles.loadingText}>{t('projects.loading')}</Text>
       </View>
     );
   }
 
-  if (error) {
+  if (!data) {
     return (
-      <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error}</Text>
-      </View>
+      <>
+        {meta}
+        <ErrorView
+          title={t('projects.loadFailed')}
+          error={error}
+          onRetry={refresh}
+        />
+      </>
     );
   }
 
+  const list = (
+    <FlatList
+      // numColumns can't change on the fly, so remount when it does.
+      key={columns}
+      data={repositories}
+      renderItem={renderRepository}
+      keyExtractor={(item) => item.id.toString()}
+      numColumns={columns}
+      columnWrapperStyle={columns > 1 ? styles.gridRow : undefined}
+      contentContainerStyle={styles.listContainer}
+      ListHeaderComponent={
+        <>
+          <Text style={styles.headerTitle} accessibilityRole="header">
+            {t('projects.title')}
+          </Text>
+          <RepoFilterBar
+            filters={filters}
+            languages={languages}
+            topics={topics}
+            showTypes={isOrg}
+            onChange={setFilters}
+          />
+        </>
+      }
+      ListEmptyComponent={
+        <Text style={styles.emptyText}>{t('projects.empty')}</Text>
+      }
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={refresh}
+          tintColor={colors.primary}
+        />
+      }
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      ListFooterComponent={
+        loadingMore ? (
+          <ActivityIndicator
+            style={styles.listFooter}
+            color={colors.primary}
+          />
+        ) : null
+      }
+    />
+  );
+
   return (
     <SafeAreaView style={styles.container}>
-      <FlatList
-        data={repositories}
-        renderItem={renderRepository}
-        keyExtractor={(item) => item.id.toString()}
-        contentContainerStyle={styles.listContainer}
-        ListHeaderComponent={
-          <Text style={styles.headerTitle}>All Repositories</Text>
-        }
-      />
-      <RepoDetailsModal />
+      {meta}
+      <SyncBanner syncedAt={syncedAt} failed={!!error} />
+      {expanded ? (
+        <View style={styles.split}>
+          <View style={styles.listPane}>{list}</View>
+          <View style={styles.detailPane}>
+            {selected ? (
+              <RepoDetails
+                key={selected.id}
+                owner={selected.owner.login}
+                name={selected.name}
+                embedded
+              />
+            ) : (
+              <View style={styles.placeholder}>
+                <Ionicons
+                  name="code-slash"
+                  size={48}
+                  color={colors.textSubtle}
+                />
+                <Text style={styles.placeholderText}>
+                  {t('projects.selectRepo')}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      ) : (
+        list
+      )}
     </SafeAreaView>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#1A202C',
-  },
-  loadingContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: '#1A202C',
-  },
-  loadingText: {
-    color: '#A0AEC0',
-    fontSize: 16,
-  },
-  errorContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: '#1A202C',
-  },
-  errorText: {
-    color: '#FC8181',
-    fontSize: 16,
-  },
-  listContainer: {
-    padding: 16,
-  },
-  headerTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 16,
-  },
-  repoCard: {
-    backgroundColor: '#2D3748',
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 16,
-  },
-  repoName: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 8,
-  },
-  repoDescription: {
-    fontSize: 14,
-    color: '#A0AEC0',
-    marginBottom: 16,
-  },
-  repoFooter: {
-    flexDirection: 'column',
-    gap: 12,
-  },
-  repoMetadata: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 16,
-  },
-  repoStats: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  languageContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  languageDot: {
-    width: 12,
-    height: 12,
-    borderRadius: 6,
-    marginRight: 6,
-  },
-  languageText: {
-    color: '#A0AEC0',
-    fontSize: 14,
-  },
-  starContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  starCount: {
-    color: '#A0AEC0',
-    fontSize: 14,
-    marginLeft: 4,
-  },
-  dates: {
-    flexDirection: 'column',
-    gap: 4,
-  },
-  dateText: {
-    color: '#A0AEC0',
-    fontSize: 14,
-  },
-  updatedAt: {
-    color: '#A0AEC0',
-    fontSize: 12,
-  },
-  modalContainer: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-    justifyContent: 'flex-end',
-  },
-  modalContent: {
-    backgroundColor: '#1A202C',
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    minHeight: '70%',
-    padding: 20,
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 20,
-  },
-  modalTitle: {
-    fontSize: 24,
-    fontWeight: 'bold',
-    color: 'white',
-  },
-  closeButton: {
-    padding: 8,
-  },
-  modalScroll: {
-    flex: 1,
-  },
-  modalDescription: {
-    fontSize: 16,
-    color: '#A0AEC0',
-    marginBottom: 24,
-    lineHeight: 24,
-  },
-  statsGrid: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    marginBottom: 24,
-  },
-  statItem: {
-    alignItems: 'center',
-  },
-  statNumber: {
-    fontSize: 20,
-    fontWeight: 'bold',
-    color: 'white',
-    marginVertical: 8,
-  },
-  statLabel: {
-    fontSize: 14,
-    color: '#A0AEC0',
-  },
-  datesContainer: {
-    backgroundColor: '#2D3748',
-    padding: 16,
-    borderRadius: 12,
-    marginBottom: 24,
-    gap: 8,
-  },
-  topicsContainer: {
-    marginBottom: 24,
-  },
-  topicsTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    color: 'white',
-    marginBottom: 12,
-  },
-  topicsList: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    marginHorizontal: -4,
-  },
-  topicTag: {
-    backgroundColor: '#4299E1',
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 16,
-    margin: 4,
-  },
-  topicText: {
-    color: 'white',
-    fontSize: 14,
-  },
-  viewOnGithubButton: {
-    backgroundColor: '#2D3748',
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: 16,
-    borderRadius: 12,
-    marginTop: 8,
-  },
-  viewOnGithubText: {
-    color: 'white',
-    fontSize: 16,
-    fontWeight: 'bold',
-    marginLeft: 8,
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    loadingText: {
+      color: colors.textMuted,
+      fontSize: 16,
+    },
+    listContainer: {
+      padding: 16,
+    },
+    split: {
+      flex: 1,
+      flexDirection: 'row',
+    },
+    listPane: {
+      width: 420,
+    },
+    detailPane: {
+      flex: 1,
+      borderStartWidth: StyleSheet.hairlineWidth,
+      borderColor: colors.border,
+    },
+    placeholder: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      gap: 12,
+      padding: 24,
+    },
+    placeholderText: {
+      color: colors.textMuted,
+      fontSize: 16,
+      textAlign: 'center',
+    },
+    gridRow: {
+      gap: 16,
+    },
+    emptyText: {
+      color: colors.textMuted,
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    listFooter: {
+      paddingVertical: 16,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 16,
+    },
+    repoCard: {
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: 'transparent',
+    },
+    // Keeps a lone card on the last row from spanning both columns.
+    gridCard: {
+      flex: 1,
+      maxWidth: '50%',
+    },
+    selectedCard: {
+      borderColor: colors.primary,
+    },
+    repoHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'flex-start',
+      gap: 8,
+      marginBottom: 8,
+    },
+    repoName: {
+      flex: 1,
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    repoDescription: {
+      fontSize: 14,
+      color: colors.textMuted,
+      marginBottom: 16,
+    },
+    repoFooter: {
+      flexDirection: 'column',
+      gap: 12,
+    },
+    repoMetadata: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 16,
+    },
+    repoStats: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    languageContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    languageDot: {
+      width: 12,
+      height: 12,
+      borderRadius: 6,
+      marginEnd: 6,
+    },
+    languageText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    starContainer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    starCount: {
+      color: colors.textMuted,
+      fontSize: 14,
+      marginStart: 4,
+    },
+    dates: {
+      flexDirection: 'column',
+      gap: 4,
+    },
+    dateText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    updatedAt: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+  });
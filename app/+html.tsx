@@ -0,0 +1,31 @@
+import { ScrollViewStyleReset } from 'expo-router/html';
+import type { PropsWithChildren } from 'react';
+import { STATIC_DATA_ID, serializeStaticData } from '@/lib/staticData';
+
+// Only rendered by `expo export`. Matches expo-router's default document and
+// adds the data the pages were rendered with, which the browser needs to
+// hydrate the same markup.
+export default function Root({ children }: PropsWithChildren) {
+  const data = serializeStaticData();
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta httpEquiv="X-UA-Compatible" content="IE=edge" />
+        <meta
+          name="viewport"
+          content="width=device-width, initial-scale=1, shrink-to-fit=no"
+        />
+        <ScrollViewStyleReset />
+        {data && (
+          <script
+            id={STATIC_DATA_ID}
+            type="application/json"
+            dangerouslySetInnerHTML={{ __html: data }}
+          />
+        )}
+      </head>
+      <body>{children}</body>
+    </html>
+  );
+}
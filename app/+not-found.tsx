@@ -1,33 +1,42 @@
 import { Link, Stack } from 'expo-router';
 import { StyleSheet, Text, View } from 'react-native';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useThemedStyles } from '@/context/ThemeContext';
 
 export default function NotFoundScreen() {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
   return (
     <>
-      <Stack.Screen options={{ title: 'Oops!' }} />
+      <Stack.Screen options={{ title: t('notFound.title') }} />
       <View style={styles.container}>
-        <Text style={styles.text}>This screen doesn't exist.</Text>
+        <Text style={styles.text}>{t('notFound.message')}</Text>
         <Link href="/" style={styles.link}>
-          <Text>Go to home screen!</Text>
+          <Text>{t('notFound.home')}</Text>
         </Link>
       </View>
     </>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-    padding: 20,
-  },
-  text: {
-    fontSize: 20,
-    fontWeight: 600,
-  },
-  link: {
-    marginTop: 15,
-    paddingVertical: 15,
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 20,
+      backgroundColor: colors.background,
+    },
+    text: {
+      fontSize: 20,
+      fontWeight: 600,
+      color: colors.text,
+    },
+    link: {
+      marginTop: 15,
+      paddingVertical: 15,
+      color: colors.link,
+    },
+  });
@@ -1,19 +1,60 @@
+import 'react-native-url-polyfill/auto';
 import { useEffect } from 'react';
+import { Stack } from 'expo-router';
+import { StatusBar } from 'expo-status-bar';
+import { useFonts } from 'expo-font';
+import { useCallback } from 'react';
+import * as SplashScreen from 'expo-splash-screen';
+import { CollectionsProvider } from '@/context/CollectionsContext';
+import { LocaleProvider } from '@/context/LocaleContext';
+import { SettingsProvider } from '@/context/SettingsContext';
+import { ThemeProvider, useTheme } from '@/context/ThemeContext';
+import { WatchProvider } from '@/context/WatchContext';
+import { useBreakpoint } from '@/hooks/useBreakpoint';
 
 declare global {
   interface Window {
     frameworkReady?: () => void;
   }
 }
-import { Stack } from 'expo-router';
-import { StatusBar } from 'expo-status-bar';
-import { useFonts } from 'expo-font';
-import { useCallback } from 'react';
-import * as SplashScreen from 'expo-splash-screen';
 
 // Keep the splash screen visible while we fetch resources
 SplashScreen.preventAutoHideAsync();
 
+function RootStack() {
+  const { scheme, colors } = useTheme();
+  const { wide } = useBreakpoint();
+
+  return (
+    <>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+          contentStyle: { backgroundColor: colors.background },
+          // Sheets sliding up over a wide window look out of place.
+          animation: wide ? 'fade' : 'default',
+        }}>
+        <Stack.Screen name="(tabs)" />
+        <Stack.Screen
+          name="settings"
+          options={{ presentation: wide ? 'card' : 'modal' }}
+        />
+        <Stack.Screen name="compare" />
+        <Stack.Screen name="collections" />
+        <Stack.Screen name="org/[name]/members" />
+        <Stack.Screen name="repo/[owner]/[name]/index" />
+        <Stack.Screen name="repo/[owner]/[name]/issues/index" />
+        <Stack.Screen name="repo/[owner]/[name]/issues/[number]" />
+        <Stack.Screen
+          name="+not-found"
+          options={{ presentation: wide ? 'card' : 'modal' }}
+        />
+      </Stack>
+      <StatusBar style={scheme === 'dark' ? 'light' : 'dark'} />
+    </>
+  );
+}
+
 export default function RootLayout() {
   const [fontsLoaded, fontError] = useFonts({
     ...require('@expo/vector-icons/build/vendor/react-native-vector-icons/Fonts/Ionicons.ttf'),
@@ -35,12 +76,16 @@ export default function RootLayout() {
   }
 
   return (
-    <>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="(tabs)" />
-        <Stack.Screen name="+not-found" options={{ presentation: 'modal' }} />
-      </Stack>
-      <StatusBar style="auto" />
-    </>
+    <LocaleProvider>
+      <ThemeProvider>
+        <SettingsProvider>
+          <CollectionsProvider>
+            <WatchProvider>
+              <RootStack />
+            </WatchProvider>
+          </CollectionsProvider>
+        </SettingsProvider>
+      </ThemeProvider>
+    </LocaleProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,313 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Share,
+} from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { ScreenHeader } from '@/components/ScreenHeader';
+import { useCollections } from '@/context/CollectionsContext';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+const openRepo = (fullName: string) => {
+  const [owner, name] = fullName.split('/');
+  router.push({ pathname: '/repo/[owner]/[name]', params: { owner, name } });
+};
+
+function RepoRow({
+  fullName,
+  onRemove,
+}: {
+  fullName: string;
+  onRemove: () => void;
+}) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  return (
+    <View style={styles.repoRow}>
+      <Pressable
+        style={styles.repoLink}
+        onPress={() => openRepo(fullName)}
+        accessibilityRole="button"
+        accessibilityHint={t('a11y.openRepo')}>
+        <Text style={styles.repoName} numberOfLines={1}>
+          {fullName}
+        </Text>
+      </Pressable>
+      <Pressable
+        onPress={onRemove}
+        hitSlop={8}
+        accessibilityRole="button"
+        accessibilityLabel={t('a11y.remove', { repo: fullName })}>
+        <Ionicons name="close" size={18} color={colors.textMuted} />
+      </Pressable>
+    </View>
+  );
+}
+
+export default function CollectionsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const {
+    pinned,
+    collections,
+    togglePinned,
+    createCollection,
+    deleteCollection,
+    toggleInCollection,
+    exportJson,
+    importJson,
+  } = useCollections();
+  const [draft, setDraft] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [importDraft, setImportDraft] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const addCollection = () => {
+    if (!draft.trim()) return;
+    createCollection(draft);
+    setDraft('');
+  };
+
+  const exportAll = () => {
+    Share.share({ message: exportJson() }).catch(() => undefined);
+  };
+
+  const runImport = () => {
+    try {
+      importJson(importDraft);
+      setImportDraft('');
+      setImporting(false);
+      setImportMessage(t('collections.imported'));
+    } catch {
+      setImportMessage(t('collections.importFailed'));
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader
+        title={t('collections.title')}
+        fallback="/"
+        actions={
+          <View style={styles.actions}>
+            <Pressable
+              style={styles.headerButton}
+              onPress={() => {
+                setImporting(!importing);
+                setImportMessage(null);
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.importCollections')}
+              accessibilityState={{ expanded: importing }}>
+              <Ionicons
+                name="download-outline"
+                size={24}
+                color={colors.textMuted}
+              />
+            </Pressable>
+            <Pressable
+              style={styles.headerButton}
+              onPress={exportAll}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.exportCollections')}>
+              <Ionicons
+                name="share-outline"
+                size={24}
+                color={colors.textMuted}
+              />
+            </Pressable>
+          </View>
+        }
+      />
+      <ScrollView contentContainerStyle={styles.content}>
+        {importing && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('collections.import')}</Text>
+            <TextInput
+              style={[styles.input, styles.importInput]}
+              value={importDraft}
+              onChangeText={setImportDraft}
+              placeholder={t('collections.importPlaceholder')}
+              placeholderTextColor={colors.textSubtle}
+              autoCapitalize="none"
+              autoCorrect={false}
+              multiline
+            />
+            <Pressable
+              style={styles.button}
+              onPress={runImport}
+              accessibilityRole="button">
+              <Text style={styles.buttonText}>{t('collections.import')}</Text>
+            </Pressable>
+          </View>
+        )}
+        {importMessage && <Text style={styles.hint}>{importMessage}</Text>}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('collections.pinned')}</Text>
+          {pinned.length ? (
+            pinned.map((fullName) => (
+              <RepoRow
+                key={fullName}
+                fullName={fullName}
+                onRemove={() => togglePinned(fullName)}
+              />
+            ))
+          ) : (
+            <Text style={styles.hint}>{t('collections.noPinned')}</Text>
+          )}
+        </View>
+
+        {collections.map((collection) => (
+          <View key={collection.id} style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>{collection.name}</Text>
+              <Pressable
+                onPress={() => deleteCollection(collection.id)}
+                accessibilityRole="button"
+                accessibilityLabel={t('a11y.deleteCollection', {
+                  name: collection.name,
+                })}>
+                <Text style={styles.deleteText}>
+                  {t('collections.delete')}
+                </Text>
+              </Pressable>
+            </View>
+            {collection.repos.length ? (
+              collection.repos.map((fullName) => (
+                <RepoRow
+                  key={fullName}
+                  fullName={fullName}
+                  onRemove={() => toggleInCollection(collection.id, fullName)}
+                />
+              ))
+            ) : (
+              <Text style={styles.hint}>{t('collections.empty')}</Text>
+            )}
+          </View>
+        ))}
+
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={t('collections.newPlaceholder')}
+            placeholderTextColor={colors.textSubtle}
+            returnKeyType="done"
+            onSubmitEditing={addCollection}
+          />
+          <Pressable
+            style={styles.iconButton}
+            onPress={addCollection}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.createCollection')}>
+            <Ionicons name="add" size={22} color={colors.onPrimary} />
+          </Pressable>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    actions: {
+      flexDirection: 'row',
+    },
+    headerButton: {
+      padding: 8,
+    },
+    content: {
+      padding: 16,
+      gap: 16,
+    },
+    section: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      gap: 8,
+    },
+    sectionHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    sectionTitle: {
+      color: colors.text,
+      fontSize: 18,
+      fontWeight: 'bold',
+    },
+    deleteText: {
+      color: colors.danger,
+      fontSize: 14,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    repoRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    repoLink: {
+      flex: 1,
+      paddingVertical: 4,
+    },
+    repoName: {
+      color: colors.link,
+      fontSize: 15,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      color: colors.text,
+      fontSize: 16,
+      padding: 12,
+      borderRadius: 8,
+    },
+    importInput: {
+      flex: 0,
+      backgroundColor: colors.background,
+      minHeight: 120,
+      fontSize: 13,
+      textAlignVertical: 'top',
+    },
+    iconButton: {
+      backgroundColor: colors.primary,
+      justifyContent: 'center',
+      paddingHorizontal: 14,
+      borderRadius: 8,
+    },
+    button: {
+      backgroundColor: colors.primary,
+      padding: 12,
+      borderRadius: 8,
+      alignItems: 'center',
+    },
+    buttonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+  });
@@ -0,0 +1,398 @@
+import { useState, type ReactNode } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Image,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Share,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Chip } from '@/components/Chip';
+import { ErrorView } from '@/components/ErrorView';
+import { LanguageLegend } from '@/components/LanguageLegend';
+import { ScreenHeader } from '@/components/ScreenHeader';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import {
+  getUserSummary,
+  MAX_COMPARED_USERS,
+  MIN_COMPARED_USERS,
+  parseUsers,
+  type UserSummary,
+} from '@/lib/compare';
+import { describeRepo } from '@/lib/format';
+import type { TranslationKey } from '@/lib/i18n';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+// Below this width per user the columns get cramped, so each user gets a
+// full-width card instead.
+const MIN_COLUMN_WIDTH = 160;
+
+const STATS: {
+  label: TranslationKey;
+  value: (summary: UserSummary) => number;
+}[] = [
+  { label: 'compare.repositories', value: (s) => s.profile.public_repos },
+  { label: 'compare.followers', value: (s) => s.profile.followers },
+  { label: 'compare.following', value: (s) => s.profile.following },
+  { label: 'compare.totalStars', value: (s) => s.totalStars },
+];
+
+function UserHeader({ summary }: { summary: UserSummary }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.userHeader}>
+      <Image
+        source={{ uri: summary.profile.avatar_url }}
+        style={styles.avatar}
+      />
+      <Text style={styles.userName} numberOfLines={1}>
+        {summary.profile.name || summary.profile.login}
+      </Text>
+      <Text style={styles.userLogin} numberOfLines={1}>
+        @{summary.profile.login}
+      </Text>
+    </View>
+  );
+}
+
+function TopRepos({ summary }: { summary: UserSummary }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+
+  if (!summary.topRepos.length) {
+    return <Text style={styles.muted}>{t('compare.noRepos')}</Text>;
+  }
+  return (
+    <View style={styles.repoList}>
+      {summary.topRepos.map((repo) => (
+        <Pressable
+          key={repo.id}
+          style={styles.repoRow}
+          onPress={() =>
+            router.push({
+              pathname: '/repo/[owner]/[name]',
+              params: { owner: repo.owner.login, name: repo.name },
+            })
+          }
+          accessibilityRole="button"
+          accessibilityLabel={describeRepo(repo)}
+          accessibilityHint={t('a11y.openRepo')}>
+          <Text style={styles.repoName} numberOfLines={1}>
+            {repo.name}
+          </Text>
+          <Ionicons name="star" size={12} color={colors.star} />
+          <Text style={styles.muted}>{repo.stargazers_count}</Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+export default function CompareScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { width } = useWindowDimensions();
+  const params = useLocalSearchParams<{ users?: string }>();
+  const users = parseUsers(params.users);
+  const [draft, setDraft] = useState('');
+
+  const { data, loading, error, refresh } = useCachedQuery<UserSummary[]>(
+    users.length >= MIN_COMPARED_USERS
+      ? `compare:${users.join(',').toLowerCase()}`
+      : null,
+    () => Promise.all(users.map(getUserSummary))
+  );
+
+  const setUsers = (next: string[]) =>
+    router.setParams({ users: next.length ? next.join(',') : undefined });
+
+  const addUser = () => {
+    const name = draft.trim();
+    if (!name || users.length >= MAX_COMPARED_USERS) return;
+    setUsers(parseUsers([...users, name].join(',')));
+    setDraft('');
+  };
+
+  const share = () => {
+    const url = Linking.createURL('/compare', {
+      queryParams: { users: users.join(',') },
+    });
+    Share.share({
+      message: t('compare.shareMessage', { users: users.join(', '), url }),
+    }).catch(() => undefined);
+  };
+
+  const stacked = width < users.length * MIN_COLUMN_WIDTH + 32;
+
+  const renderComparison = (summaries: UserSummary[]) => {
+    const renderRow = (
+      label: TranslationKey,
+      cell: (summary: UserSummary) => ReactNode
+    ) => (
+      <View key={label} style={styles.section}>
+        <Text style={styles.sectionTitle}>{t(label)}</Text>
+        <View style={styles.columns}>
+          {summaries.map((summary) => (
+            <View key={summary.profile.login} style={styles.cell}>
+              {cell(summary)}
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+
+    if (stacked) {
+      return summaries.map((summary) => (
+        <View key={summary.profile.login} style={styles.card}>
+          <UserHeader summary={summary} />
+          {STATS.map((stat) => (
+            <View key={stat.label} style={styles.statLine}>
+              <Text style={styles.muted}>{t(stat.label)}</Text>
+              <Text style={styles.statValue}>{stat.value(summary)}</Text>
+            </View>
+          ))}
+          <Text style={styles.sectionTitle}>{t('compare.topLanguages')}</Text>
+          <LanguageLegend shares={summary.languages} />
+          <Text style={styles.sectionTitle}>
+            {t('compare.topRepositories')}
+          </Text>
+          <TopRepos summary={summary} />
+        </View>
+      ));
+    }
+
+    return (
+      <>
+        <View style={styles.columns}>
+          {summaries.map((summary) => (
+            <View key={summary.profile.login} style={styles.cell}>
+              <UserHeader summary={summary} />
+            </View>
+          ))}
+        </View>
+        {STATS.map((stat) => {
+          const best = Math.max(...summaries.map(stat.value));
+          return renderRow(stat.label, (summary) => (
+            <Text
+              style={[
+                styles.statValue,
+                stat.value(summary) === best && styles.statBest,
+              ]}>
+              {stat.value(summary)}
+            </Text>
+          ));
+        })}
+        {renderRow('compare.topLanguages', (summary) => (
+          <LanguageLegend shares={summary.languages} />
+        ))}
+        {renderRow('compare.topRepositories', (summary) => (
+          <TopRepos summary={summary} />
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader title={t('compare.title')} fallback="/" />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={t('compare.addPlaceholder')}
+            placeholderTextColor={colors.textSubtle}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            onSubmitEditing={addUser}
+            editable={users.length < MAX_COMPARED_USERS}
+          />
+          <Pressable
+            style={styles.iconButton}
+            onPress={addUser}
+            disabled={users.length >= MAX_COMPARED_USERS}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.addUser')}
+            accessibilityState={{
+              disabled: users.length >= MAX_COMPARED_USERS,
+            }}>
+            <Ionicons name="person-add" size={20} color={colors.onPrimary} />
+          </Pressable>
+          {users.length >= MIN_COMPARED_USERS && (
+            <Pressable
+              style={styles.iconButton}
+              onPress={share}
+              accessibilityRole="button"
+              accessibilityLabel={t('a11y.shareComparison')}>
+              <Ionicons
+                name="share-outline"
+                size={20}
+                color={colors.onPrimary}
+              />
+            </Pressable>
+          )}
+        </View>
+
+        {users.length > 0 && (
+          <View style={styles.chips}>
+            {users.map((user) => (
+              <Chip
+                key={user}
+                label={`${user} ✕`}
+                active
+                onPress={() =>
+                  setUsers(users.filter((other) => other !== user))
+                }
+              />
+            ))}
+          </View>
+        )}
+
+        {users.length < MIN_COMPARED_USERS ? (
+          <Text style={styles.hint}>
+            {t('compare.needMore', { max: MAX_COMPARED_USERS })}
+          </Text>
+        ) : data ? (
+          renderComparison(data)
+        ) : loading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : (
+          <ErrorView
+            title={t('compare.loadFailed')}
+            error={error}
+            onRetry={refresh}
+          />
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 16,
+      gap: 16,
+    },
+    inputRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      color: colors.text,
+      fontSize: 16,
+      padding: 12,
+      borderRadius: 8,
+    },
+    iconButton: {
+      backgroundColor: colors.primary,
+      justifyContent: 'center',
+      paddingHorizontal: 14,
+      borderRadius: 8,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 14,
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    columns: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    cell: {
+      flex: 1,
+      minWidth: 0,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      gap: 8,
+    },
+    userHeader: {
+      alignItems: 'center',
+      gap: 4,
+    },
+    avatar: {
+      width: 64,
+      height: 64,
+      borderRadius: 32,
+      marginBottom: 4,
+    },
+    userName: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    userLogin: {
+      color: colors.textMuted,
+      fontSize: 13,
+    },
+    section: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 12,
+      gap: 8,
+    },
+    sectionTitle: {
+      color: colors.textMuted,
+      fontSize: 13,
+      fontWeight: 'bold',
+      marginTop: 4,
+    },
+    statLine: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    statValue: {
+      color: colors.text,
+      fontSize: 18,
+      fontWeight: 'bold',
+    },
+    statBest: {
+      color: colors.success,
+    },
+    muted: {
+      color: colors.textMuted,
+      fontSize: 13,
+    },
+    repoList: {
+      gap: 6,
+    },
+    repoRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    repoName: {
+      flex: 1,
+      color: colors.link,
+      fontSize: 14,
+    },
+  });
@@ -0,0 +1,137 @@
+import {
+  Text,
+  Image,
+  StyleSheet,
+  FlatList,
+  Pressable,
+  Linking,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { ErrorView } from '@/components/ErrorView';
+import { ScreenHeader } from '@/components/ScreenHeader';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { getOrgMembersPage, type OrgMember } from '@/lib/github';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+export default function OrgMembersScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { name } = useLocalSearchParams<{ name: string }>();
+  const {
+    items,
+    loading,
+    refreshing,
+    error,
+    refresh,
+    loadingMore,
+    loadMore,
+  } = usePagedQuery<OrgMember>(`members:${name}`, (next) =>
+    getOrgMembersPage(name, next)
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader title={t('org.members')} subtitle={name} fallback="/" />
+      {!items && !loading ? (
+        <ErrorView
+          title={t('org.membersLoadFailed')}
+          error={error}
+          onRetry={refresh}
+        />
+      ) : (
+        <FlatList
+          data={items ?? []}
+          keyExtractor={(member) => member.id.toString()}
+          renderItem={({ item }) => (
+            <Pressable
+              style={styles.memberRow}
+              onPress={() => Linking.openURL(item.html_url)}
+              accessibilityRole="link"
+              accessibilityLabel={t('a11y.member', { login: item.login })}>
+              <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
+              <Text style={styles.login} numberOfLines={1}>
+                {item.login}
+              </Text>
+              <Ionicons
+                name="open-outline"
+                size={18}
+                color={colors.textSubtle}
+              />
+            </Pressable>
+          )}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={
+            loading ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={styles.emptyText}>{t('org.noMembers')}</Text>
+            )
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={refresh}
+              tintColor={colors.primary}
+            />
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator
+                style={styles.listFooter}
+                color={colors.primary}
+              />
+            ) : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    listContainer: {
+      padding: 16,
+      gap: 8,
+    },
+    memberRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      backgroundColor: colors.surface,
+      padding: 12,
+      borderRadius: 8,
+    },
+    avatar: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+    },
+    login: {
+      flex: 1,
+      color: colors.text,
+      fontSize: 16,
+    },
+    emptyText: {
+      color: colors.textMuted,
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    listFooter: {
+      paddingVertical: 16,
+    },
+  });
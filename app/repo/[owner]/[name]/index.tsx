@@ -0,0 +1,48 @@
+import { useLocalSearchParams } from 'expo-router';
+import { PageMeta } from '@/components/PageMeta';
+import { RepoDetails } from '@/components/RepoDetails';
+import { DEFAULT_USERNAME } from '@/context/SettingsContext';
+import { useLocale } from '@/context/LocaleContext';
+import { getStaticRepos, loadStaticData } from '@/lib/staticData';
+
+// Pre-renders a page for each of the default account's repos on web export.
+export async function generateStaticParams() {
+  await loadStaticData(DEFAULT_USERNAME);
+  return getStaticRepos().map((repo) => ({
+    owner: repo.owner.login,
+    name: repo.name,
+  }));
+}
+
+export default function RepoDetailsScreen() {
+  const { t } = useLocale();
+  const { owner, name } = useLocalSearchParams<{
+    owner: string;
+    name: string;
+  }>();
+
+  return (
+    <RepoDetails
+      owner={owner}
+      name={name}
+      renderMeta={(repo) => (
+        <PageMeta
+          title={repo?.full_name ?? `${owner}/${name}`}
+          description={
+            repo &&
+            (repo.description ||
+              t('seo.repoDescription', {
+                name: repo.full_name,
+                stars: repo.stargazers_count,
+                forks: repo.forks_count,
+              }))
+          }
+          path={`/repo/${owner}/${name}`}
+          // GitHub's generated social preview for the repo.
+          image={`https://opengraph.githubassets.com/1/${owner}/${name}`}
+          largeImage
+        />
+      )}
+    />
+  );
+}
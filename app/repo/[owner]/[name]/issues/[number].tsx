@@ -0,0 +1,263 @@
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Linking,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { ErrorView } from '@/components/ErrorView';
+import { issueIcon, LabelChip } from '@/components/IssueRow';
+import { Markdown } from '@/components/Markdown';
+import { ScreenHeader } from '@/components/ScreenHeader';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { formatDate } from '@/lib/format';
+import {
+  getIssue,
+  getIssueCommentsPage,
+  type Issue,
+  type IssueComment,
+} from '@/lib/github';
+import type { MarkdownSource } from '@/lib/markdown';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface PostProps {
+  author: { login: string; avatar_url: string };
+  createdAt: string;
+  body: string | null;
+  source: MarkdownSource;
+}
+
+function Post({ author, createdAt, body, source }: PostProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  return (
+    <View style={styles.post}>
+      <View style={styles.postHeader}>
+        <Image source={{ uri: author.avatar_url }} style={styles.avatar} />
+        <Text style={styles.author}>{author.login}</Text>
+        <Text style={styles.meta}>{formatDate(createdAt)}</Text>
+      </View>
+      {body ? (
+        <Markdown content={body} source={source} />
+      ) : (
+        <Text style={styles.meta}>{t('issues.noDescription')}</Text>
+      )}
+    </View>
+  );
+}
+
+export default function IssueDetailsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const params = useLocalSearchParams<{
+    owner: string;
+    name: string;
+    number: string;
+  }>();
+  const { owner, name } = params;
+  const number = Number(params.number);
+  const key = `${owner}/${name}#${number}`;
+
+  const { data: issue, loading, refreshing, error, refresh } =
+    useCachedQuery<Issue>(`issue:${key}`, () => getIssue(owner, name, number));
+  const comments = usePagedQuery<IssueComment>(`comments:${key}`, (next) =>
+    getIssueCommentsPage(owner, name, number, next)
+  );
+
+  // Issues have no branch context; resolve relative URLs against HEAD.
+  const source: MarkdownSource = { owner, name, branch: 'HEAD', path: '' };
+
+  const refreshAll = () => {
+    refresh();
+    comments.refresh();
+  };
+
+  if (loading || (refreshing && !issue)) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!issue) {
+    return (
+      <ErrorView
+        title={t('issues.issueLoadFailed')}
+        error={error}
+        onRetry={refresh}
+      />
+    );
+  }
+
+  const icon = issueIcon(issue, colors);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader
+        title={issue.title}
+        subtitle={`${owner}/${name} #${issue.number}`}
+        fallback={{
+          pathname: '/repo/[owner]/[name]/issues',
+          params: { owner, name },
+        }}
+      />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refreshAll}
+            tintColor={colors.primary}
+          />
+        }>
+        <View style={styles.status}>
+          <View style={[styles.stateBadge, { backgroundColor: icon.color }]}>
+            <Ionicons name={icon.name} size={16} color={colors.background} />
+            <Text style={styles.stateText}>
+              {t(
+                issue.pull_request?.merged_at
+                  ? 'issues.state.merged'
+                  : `issues.state.${issue.state}`
+              )}
+            </Text>
+          </View>
+          {issue.labels.map((label) => (
+            <LabelChip key={label.id} label={label} />
+          ))}
+        </View>
+
+        <Post
+          author={issue.user}
+          createdAt={issue.created_at}
+          body={issue.body}
+          source={source}
+        />
+
+        {comments.items?.map((comment) => (
+          <Post
+            key={comment.id}
+            author={comment.user}
+            createdAt={comment.created_at}
+            body={comment.body}
+            source={source}
+          />
+        ))}
+
+        {comments.hasMore && (
+          <Pressable
+            style={styles.button}
+            onPress={comments.loadMore}
+            accessibilityRole="button"
+            accessibilityLabel={t('issues.loadMoreComments')}
+            accessibilityState={{ busy: comments.loadingMore }}>
+            {comments.loadingMore ? (
+              <ActivityIndicator color={colors.text} />
+            ) : (
+              <Text style={styles.buttonText}>
+                {t('issues.loadMoreComments')}
+              </Text>
+            )}
+          </Pressable>
+        )}
+
+        <Pressable
+          style={styles.button}
+          onPress={() => Linking.openURL(issue.html_url)}>
+          <Ionicons name="logo-github" size={20} color={colors.text} />
+          <Text style={styles.buttonText}>{t('common.openOnGitHub')}</Text>
+        </Pressable>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      gap: 16,
+    },
+    status: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: 8,
+    },
+    stateBadge: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      borderRadius: 12,
+      gap: 4,
+    },
+    stateText: {
+      color: colors.background,
+      fontSize: 14,
+      fontWeight: 'bold',
+      textTransform: 'capitalize',
+    },
+    post: {
+      borderWidth: 1,
+      borderColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      gap: 12,
+    },
+    postHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    avatar: {
+      width: 24,
+      height: 24,
+      borderRadius: 12,
+    },
+    author: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: 'bold',
+      flex: 1,
+    },
+    meta: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    button: {
+      backgroundColor: colors.surface,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 16,
+      borderRadius: 12,
+      gap: 8,
+    },
+    buttonText: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+  });
@@ -0,0 +1,221 @@
+import { useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Chip } from '@/components/Chip';
+import { ErrorView } from '@/components/ErrorView';
+import { IssueRow } from '@/components/IssueRow';
+import { ScreenHeader } from '@/components/ScreenHeader';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import {
+  getIssuesPage,
+  getLabels,
+  type Issue,
+  type IssueState,
+  type Label,
+} from '@/lib/github';
+import type { TranslationKey } from '@/lib/i18n';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+type IssueType = 'all' | 'issues' | 'pulls';
+
+const STATES: { value: IssueState; label: TranslationKey }[] = [
+  { value: 'open', label: 'issues.state.open' },
+  { value: 'closed', label: 'issues.state.closed' },
+  { value: 'all', label: 'issues.state.all' },
+];
+
+const TYPES: { value: IssueType; label: TranslationKey }[] = [
+  { value: 'all', label: 'issues.type.all' },
+  { value: 'issues', label: 'issues.type.issues' },
+  { value: 'pulls', label: 'issues.type.pulls' },
+];
+
+export default function IssuesScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const params = useLocalSearchParams<{
+    owner: string;
+    name: string;
+    state?: IssueState;
+    type?: IssueType;
+    labels?: string;
+  }>();
+  const { owner, name } = params;
+  const state = params.state ?? 'open';
+  const type = params.type ?? 'all';
+  const selectedLabels = useMemo(
+    () => (params.labels ? params.labels.split(',') : []),
+    [params.labels]
+  );
+
+  const labels = useCachedQuery<Label[]>(`labels:${owner}/${name}`, () =>
+    getLabels(owner, name)
+  );
+  const {
+    items,
+    loading,
+    refreshing,
+    error,
+    refresh,
+    loadingMore,
+    loadMore,
+  } = usePagedQuery<Issue>(
+    `issues:${owner}/${name}:${state}:${selectedLabels.join(',')}`,
+    (next) =>
+      getIssuesPage(owner, name, { state, labels: selectedLabels }, next)
+  );
+  const visible = useMemo(
+    () =>
+      (items ?? []).filter((issue) =>
+        type === 'all' ? true : (type === 'pulls') === !!issue.pull_request
+      ),
+    [items, type]
+  );
+
+  const toggleLabel = (label: string) => {
+    const next = selectedLabels.includes(label)
+      ? selectedLabels.filter((selected) => selected !== label)
+      : [...selectedLabels, label];
+    router.setParams({ labels: next.length ? next.join(',') : undefined });
+  };
+
+  const renderHeader = () => (
+    <View style={styles.filters}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        {STATES.map((option) => (
+          <Chip
+            key={option.value}
+            label={t(option.label)}
+            active={state === option.value}
+            onPress={() => router.setParams({ state: option.value })}
+          />
+        ))}
+        {TYPES.map((option) => (
+          <Chip
+            key={option.value}
+            label={t(option.label)}
+            active={type === option.value}
+            onPress={() => router.setParams({ type: option.value })}
+          />
+        ))}
+      </ScrollView>
+      {!!labels.data?.length && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.row}>
+          {labels.data.map((label) => (
+            <Chip
+              key={label.id}
+              label={label.name}
+              active={selectedLabels.includes(label.name)}
+              onPress={() => toggleLabel(label.name)}
+            />
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScreenHeader
+        title={t('issues.title')}
+        subtitle={`${owner}/${name}`}
+        fallback={{ pathname: '/repo/[owner]/[name]', params: { owner, name } }}
+      />
+      {!items && !loading ? (
+        <ErrorView
+          title={t('issues.loadFailed')}
+          error={error}
+          onRetry={refresh}
+        />
+      ) : (
+        <FlatList
+          data={visible}
+          keyExtractor={(issue) => issue.id.toString()}
+          renderItem={({ item }) => (
+            <IssueRow
+              issue={item}
+              onPress={() =>
+                router.push({
+                  pathname: '/repo/[owner]/[name]/issues/[number]',
+                  params: { owner, name, number: item.number },
+                })
+              }
+            />
+          )}
+          contentContainerStyle={styles.listContainer}
+          ListHeaderComponent={renderHeader()}
+          ListEmptyComponent={
+            loading ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : (
+              <Text style={styles.emptyText}>{t('issues.empty')}</Text>
+            )
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={refresh}
+              tintColor={colors.primary}
+            />
+          }
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            loadingMore ? (
+              <ActivityIndicator
+                style={styles.listFooter}
+                color={colors.primary}
+              />
+            ) : null
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    listContainer: {
+      padding: 16,
+    },
+    filters: {
+      gap: 12,
+      marginBottom: 16,
+    },
+    row: {
+      gap: 8,
+    },
+    emptyText: {
+      color: colors.textMuted,
+      fontSize: 16,
+      textAlign: 'center',
+      marginTop: 24,
+    },
+    listFooter: {
+      paddingVertical: 16,
+    },
+  });
@@ -0,0 +1,391 @@
+import { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { Chip } from '@/components/Chip';
+import { useLocale } from '@/context/LocaleContext';
+import { DEFAULT_USERNAME, useSettings } from '@/context/SettingsContext';
+import { useWatch } from '@/context/WatchContext';
+import { useRateLimit } from '@/hooks/useRateLimit';
+import {
+  isBackgroundRefreshSupported,
+  type EnableFailure,
+} from '@/lib/backgroundRefresh';
+import { UnauthorizedError } from '@/lib/github';
+import { getDateLocale, LANGUAGES, type TranslationKey } from '@/lib/i18n';
+import type { QuietHours } from '@/lib/repoChanges';
+import type { ThemeColors } from '@/constants/theme';
+import {
+  useTheme,
+  useThemedStyles,
+  type ThemeMode,
+} from '@/context/ThemeContext';
+
+const THEME_MODES: { value: ThemeMode; label: TranslationKey }[] = [
+  { value: 'system', label: 'settings.theme.system' },
+  { value: 'light', label: 'settings.theme.light' },
+  { value: 'dark', label: 'settings.theme.dark' },
+];
+
+const QUIET_HOURS_PRESETS: QuietHours[] = [
+  { start: 22, end: 7 },
+  { start: 23, end: 8 },
+  { start: 0, end: 9 },
+];
+
+const ENABLE_FAILURES: Record<EnableFailure, TranslationKey> = {
+  permissionDenied: 'notifications.permissionDenied',
+  unavailable: 'notifications.unavailable',
+};
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+
+export default function SettingsScreen() {
+  const { mode, colors, setMode } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { preference, restartRequired, t, setPreference } = useLocale();
+  const { username, tokenLogin, setUsername, setToken, removeToken } =
+    useSettings();
+  const watch = useWatch();
+  const rateLimit = useRateLimit();
+  const [draft, setDraft] = useState(username);
+  const [tokenDraft, setTokenDraft] = useState('');
+  const [validating, setValidating] = useState(false);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [enableFailure, setEnableFailure] = useState<EnableFailure | null>(
+    null
+  );
+
+  const save = async () => {
+    await setUsername(draft);
+    router.back();
+  };
+
+  const saveToken = async () => {
+    if (!tokenDraft.trim()) return;
+    setValidating(true);
+    setTokenError(null);
+    try {
+      await setToken(tokenDraft);
+      setTokenDraft('');
+    } catch (err) {
+      setTokenError(
+        err instanceof UnauthorizedError
+          ? t('settings.tokenRejected')
+          : t('settings.tokenFailed')
+      );
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const deleteToken = async () => {
+    setTokenError(null);
+    try {
+      await removeToken();
+    } catch {
+      setTokenError(t('settings.removeFailed'));
+    }
+  };
+
+  const setWatchEnabled = async (enabled: boolean) => {
+    setEnableFailure(await watch.setEnabled(enabled));
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.headerTitle} accessibilityRole="header">
+            {t('settings.title')}
+          </Text>
+          <Pressable
+            onPress={() => router.back()}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.close')}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('settings.username')}</Text>
+          <TextInput
+            style={styles.input}
+            value={draft}
+            onChangeText={setDraft}
+            placeholder={DEFAULT_USERNAME}
+            placeholderTextColor={colors.textSubtle}
+            autoCapitalize="none"
+            autoCorrect={false}
+            returnKeyType="done"
+            onSubmitEditing={save}
+            accessibilityLabel={t('settings.username')}
+          />
+          <Text style={styles.hint}>
+            {t('settings.usernameHint', { username: DEFAULT_USERNAME })}
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('settings.appearance')}</Text>
+          <View style={styles.chipRow}>
+            {THEME_MODES.map((option) => (
+              <Chip
+                key={option.value}
+                label={t(option.label)}
+                active={mode === option.value}
+                onPress={() => setMode(option.value)}
+              />
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('settings.language')}</Text>
+          <View style={styles.chipRow}>
+            <Chip
+              label={t('settings.languageSystem')}
+              active={preference === 'system'}
+              onPress={() => setPreference('system')}
+            />
+            {LANGUAGES.map((option) => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                active={preference === option.value}
+                onPress={() => setPreference(option.value)}
+              />
+            ))}
+          </View>
+          {restartRequired && (
+            <Text style={styles.hint}>{t('settings.restartHint')}</Text>
+          )}
+        </View>
+
+        {isBackgroundRefreshSupported && (
+          <View style={styles.section}>
+            <Text style={styles.label}>{t('notifications.title')}</Text>
+            <View style={styles.chipRow}>
+              <Chip
+                label={t('notifications.off')}
+                active={!watch.enabled}
+                onPress={() => setWatchEnabled(false)}
+              />
+              <Chip
+                label={t('notifications.on')}
+                active={watch.enabled}
+                onPress={() => setWatchEnabled(true)}
+              />
+            </View>
+            {enableFailure ? (
+              <Text style={styles.errorText}>
+                {t(ENABLE_FAILURES[enableFailure])}
+              </Text>
+            ) : (
+              <Text style={styles.hint}>{t('notifications.hint')}</Text>
+            )}
+            {watch.enabled && (
+              <>
+                <Text style={[styles.label, styles.subLabel]}>
+                  {t('notifications.quietHours')}
+                </Text>
+                <View style={styles.chipRow}>
+                  <Chip
+                    label={t('notifications.off')}
+                    active={!watch.quietHours}
+                    onPress={() => watch.setQuietHours(null)}
+                  />
+                  {QUIET_HOURS_PRESETS.map((preset) => (
+                    <Chip
+                      key={preset.start}
+                      label={`${formatHour(preset.start)}–${formatHour(
+                        preset.end
+                      )}`}
+                      active={watch.quietHours?.start === preset.start}
+                      onPress={() => watch.setQuietHours(preset)}
+                    />
+                  ))}
+                </View>
+              </>
+            )}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.label}>{t('settings.token')}</Text>
+          {tokenLogin ? (
+            <>
+              <View style={styles.tokenRow}>
+                <Text style={styles.tokenStatus}>
+                  {t('settings.signedInAs', { login: tokenLogin })}
+                </Text>
+                <Pressable onPress={deleteToken} accessibilityRole="button">
+                  <Text style={styles.removeText}>{t('settings.remove')}</Text>
+                </Pressable>
+              </View>
+              {tokenError && <Text style={styles.errorText}>{tokenError}</Text>}
+            </>
+          ) : (
+            <>
+              <TextInput
+                style={styles.input}
+                value={tokenDraft}
+                onChangeText={setTokenDraft}
+                placeholder="ghp_..."
+                placeholderTextColor={colors.textSubtle}
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+                accessibilityLabel={t('settings.token')}
+              />
+              {tokenError && <Text style={styles.errorText}>{tokenError}</Text>}
+              <Pressable
+                style={styles.secondaryButton}
+                onPress={saveToken}
+                disabled={validating}
+                accessibilityRole="button"
+                accessibilityLabel={t('settings.validateToken')}
+                accessibilityState={{ disabled: validating, busy: validating }}>
+                {validating ? (
+                  <ActivityIndicator color={colors.text} />
+                ) : (
+                  <Text style={styles.secondaryButtonText}>
+                    {t('settings.validateToken')}
+                  </Text>
+                )}
+              </Pressable>
+            </>
+          )}
+          {rateLimit && (
+            <Text style={styles.hint}>
+              {t('settings.rateLimit', {
+                remaining: rateLimit.remaining,
+                limit: rateLimit.limit,
+                time: formatDistanceToNow(rateLimit.resetAt, {
+                  locale: getDateLocale(),
+                }),
+              })}
+            </Text>
+          )}
+        </View>
+
+        <Pressable
+          style={styles.saveButton}
+          onPress={save}
+          accessibilityRole="button">
+          <Text style={styles.saveButtonText}>{t('settings.save')}</Text>
+        </Pressable>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 24,
+    },
+    headerTitle: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 8,
+    },
+    section: {
+      marginBottom: 24,
+    },
+    label: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    subLabel: {
+      marginTop: 16,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      color: colors.text,
+      fontSize: 16,
+      padding: 12,
+      borderRadius: 8,
+    },
+    hint: {
+      color: colors.textMuted,
+      fontSize: 12,
+      marginTop: 8,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 14,
+      marginTop: 8,
+    },
+    tokenRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      padding: 12,
+      borderRadius: 8,
+    },
+    tokenStatus: {
+      color: colors.text,
+      fontSize: 16,
+    },
+    removeText: {
+      color: colors.danger,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    secondaryButton: {
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      padding: 12,
+      borderRadius: 8,
+      marginTop: 12,
+    },
+    secondaryButtonText: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      alignItems: 'center',
+      padding: 16,
+      borderRadius: 8,
+    },
+    saveButtonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+  });
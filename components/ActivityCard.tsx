@@ -0,0 +1,164 @@
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import type { ActivityItem } from '@/lib/activity';
+import { formatDate } from '@/lib/format';
+import type { Translate } from '@/lib/i18n';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+type IconName = keyof typeof Ionicons.glyphMap;
+
+// Event actions outside these sets are shown with a generic "updated" title.
+const PULL_REQUEST_ACTIONS = ['opened', 'closed', 'reopened'] as const;
+const ISSUE_ACTIONS = ['opened', 'closed', 'reopened'] as const;
+
+const knownAction = <T extends string>(action: string, known: readonly T[]) =>
+  known.includes(action as T) ? (action as T) : 'updated';
+
+const describe = (
+  item: ActivityItem,
+  colors: ThemeColors,
+  t: Translate
+): { icon: IconName; color: string; title: string; detail?: string } => {
+  switch (item.kind) {
+    case 'push':
+      return {
+        icon: 'git-commit',
+        color: colors.success,
+        title: item.commits.length
+          ? t('activity.pushed', {
+              count: item.commits.length,
+              branch: item.branch,
+            })
+          : t('activity.pushedNew', { branch: item.branch }),
+        detail: item.commits
+          .slice(0, 3)
+          .map((commit) => `${commit.sha.slice(0, 7)} ${commit.message}`)
+          .join('\n'),
+      };
+    case 'pullRequest':
+      return {
+        icon: 'git-pull-request',
+        color: item.merged ? colors.merged : colors.primary,
+        title: t(
+          `activity.pullRequest.${
+            item.merged
+              ? 'merged'
+              : knownAction(item.action, PULL_REQUEST_ACTIONS)
+          }`,
+          { number: item.number }
+        ),
+        detail: item.title,
+      };
+    case 'issue':
+      return {
+        icon: 'alert-circle',
+        color: colors.danger,
+        title: t(`activity.issue.${knownAction(item.action, ISSUE_ACTIONS)}`, {
+          number: item.number,
+        }),
+        detail: item.title,
+      };
+    case 'release':
+      return {
+        icon: 'pricetag',
+        color: colors.release,
+        title: t('activity.released', { name: item.name }),
+        detail: item.name !== item.tag ? item.tag : undefined,
+      };
+    case 'star':
+      return { icon: 'star', color: colors.star, title: t('activity.starred') };
+    case 'fork':
+      return {
+        icon: 'git-network',
+        color: colors.textMuted,
+        title: t('activity.forked', { forkee: item.forkee }),
+      };
+  }
+};
+
+export function ActivityCard({ item }: { item: ActivityItem }) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { icon, color, title, detail } = describe(item, colors, t);
+
+  return (
+    <Pressable
+      style={styles.card}
+      onPress={() =>
+        router.push({
+          pathname: '/repo/[owner]/[name]',
+          params: { owner: item.owner, name: item.repo },
+        })
+      }
+      accessibilityRole="button"
+      accessibilityLabel={[
+        title,
+        `${item.owner}/${item.repo}`,
+        detail,
+        formatDate(item.createdAt),
+      ]
+        .filter(Boolean)
+        .join(', ')}
+      accessibilityHint={t('a11y.openRepo')}>
+      <View style={[styles.iconContainer, { backgroundColor: color + '33' }]}>
+        <Ionicons name={icon} size={18} color={color} />
+      </View>
+      <View style={styles.body}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.repo}>
+          {item.owner}/{item.repo}
+        </Text>
+        {!!detail && (
+          <Text style={styles.detail} numberOfLines={3}>
+            {detail}
+          </Text>
+        )}
+        <Text style={styles.time}>{formatDate(item.createdAt)}</Text>
+      </View>
+    </Pressable>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    card: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 12,
+    },
+    iconContainer: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      justifyContent: 'center',
+      alignItems: 'center',
+      marginEnd: 12,
+    },
+    body: {
+      flex: 1,
+      gap: 4,
+    },
+    title: {
+      fontSize: 16,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    repo: {
+      fontSize: 14,
+      color: colors.link,
+    },
+    detail: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    time: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+  });
@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+import {
+  StyleSheet,
+  TextInput,
+  type StyleProp,
+  type TextInputProps,
+  type TextStyle,
+} from 'react-native';
+import Animated, {
+  Easing,
+  useAnimatedProps,
+  useReducedMotion,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from 'react-native-reanimated';
+
+// A read-only TextInput is the one text component whose content reanimated
+// can update on the UI thread, without re-rendering every frame.
+const AnimatedTextInput = Animated.createAnimatedComponent(TextInput);
+
+interface AnimatedCounterProps {
+  value: number;
+  style?: StyleProp<TextStyle>;
+}
+
+/**
+ * Counts up from zero the first time it gets a value and springs to new
+ * values after that. With reduce motion on, it just shows the number.
+ * Hidden from screen readers, which would announce a text field; give the
+ * surrounding element a label with the value instead.
+ */
+export function AnimatedCounter({ value, style }: AnimatedCounterProps) {
+  const reduceMotion = useReducedMotion();
+  const current = useSharedValue(reduceMotion ? value : 0);
+  const counted = useRef(false);
+
+  useEffect(() => {
+    if (reduceMotion) {
+      current.value = value;
+    } else if (!counted.current) {
+      current.value = withTiming(value, {
+        duration: 1000,
+        easing: Easing.out(Easing.cubic),
+      });
+    } else {
+      // Clamped so the number never overshoots to a value it never had.
+      current.value = withSpring(value, { overshootClamping: true });
+    }
+    counted.current = true;
+  }, [value, reduceMotion, current]);
+
+  const animatedProps = useAnimatedProps<TextInputProps & { text: string }>(
+    () => {
+      const text = Math.round(current.value).toString();
+      return { text, defaultValue: text };
+    }
+  );
+
+  return (
+    <AnimatedTextInput
+      style={[styles.counter, style]}
+      animatedProps={animatedProps}
+      defaultValue={reduceMotion ? value.toString() : '0'}
+      editable={false}
+      pointerEvents="none"
+      focusable={false}
+      aria-hidden
+      underlineColorAndroid="transparent"
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  counter: {
+    padding: 0,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, type StyleProp, type TextStyle } from 'react-native';
+import { useReducedMotion } from 'react-native-reanimated';
+
+// Animated props never reach a TextInput's value on web, so the number is
+// plain React state stepped once per animation frame.
+
+interface AnimatedCounterProps {
+  value: number;
+  style?: StyleProp<TextStyle>;
+}
+
+const COUNT_UP_MS = 1000;
+const UPDATE_MS = 400;
+
+const easeOutCubic = (progress: number) => 1 - (1 - progress) ** 3;
+
+/**
+ * Counts up from zero the first time it gets a value and eases to new
+ * values after that. With reduce motion on, it just shows the number.
+ * Hidden from screen readers, which would read every step; give the
+ * surrounding element a label with the value instead.
+ */
+export function AnimatedCounter({ value, style }: AnimatedCounterProps) {
+  const reduceMotion = useReducedMotion();
+  const [shown, setShown] = useState(reduceMotion ? value : 0);
+  // Where the next animation starts, including from partway through one.
+  const current = useRef(shown);
+  const counted = useRef(false);
+
+  useEffect(() => {
+    if (reduceMotion) {
+      current.current = value;
+      setShown(value);
+      counted.current = true;
+      return;
+    }
+    const from = current.current;
+    const duration = counted.current ? UPDATE_MS : COUNT_UP_MS;
+    counted.current = true;
+    let start: number | null = null;
+    let frame = requestAnimationFrame(function step(now) {
+      start ??= now;
+      const progress = Math.min((now - start) / duration, 1);
+      current.current = from + (value - from) * easeOutCubic(progress);
+      setShown(current.current);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [value, reduceMotion]);
+
+  return (
+    <Text style={[styles.counter, style]} aria-hidden>
+      {Math.round(shown)}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  counter: {
+    textAlign: 'center',
+  },
+});
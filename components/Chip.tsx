@@ -0,0 +1,44 @@
+import { Text, StyleSheet, Pressable } from 'react-native';
+import type { ThemeColors } from '@/constants/theme';
+import { useThemedStyles } from '@/context/ThemeContext';
+
+interface ChipProps {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}
+
+export function Chip({ label, active, onPress }: ChipProps) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <Pressable
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}>
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    chip: {
+      backgroundColor: colors.surface,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+    },
+    chipText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    chipTextActive: {
+      color: colors.onPrimary,
+    },
+  });
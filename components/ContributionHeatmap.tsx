@@ -0,0 +1,170 @@
+import { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import Svg, { Rect } from 'react-native-svg';
+import { format, parseISO } from 'date-fns';
+import {
+  buildCalendar,
+  computeStreaks,
+  totalContributions,
+  type CalendarDay,
+  type DailyCounts,
+} from '@/lib/contributions';
+import { describeStat } from '@/lib/format';
+import { getDateLocale, type Language, type Translate } from '@/lib/i18n';
+import type { ColorScheme, ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface ContributionHeatmapProps {
+  counts: DailyCounts;
+  weeks: number;
+}
+
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+const LEVEL_COLORS: Record<ColorScheme, string[]> = {
+  dark: ['#4A5568', '#1C4532', '#276749', '#38A169', '#68D391'],
+  light: ['#E2E8F0', '#9AE6B4', '#68D391', '#38A169', '#276749'],
+};
+
+const describeDay = (day: CalendarDay, t: Translate, language: Language) =>
+  t('contributions.onDay', {
+    count: day.count,
+    date: format(parseISO(day.date), 'MMM d, yyyy', {
+      locale: getDateLocale(language),
+    }),
+  });
+
+export function ContributionHeatmap({ counts, weeks }: ContributionHeatmapProps) {
+  const { scheme, colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { language, t } = useLocale();
+  const [selected, setSelected] = useState<CalendarDay | null>(null);
+  const scrollRef = useRef<ScrollView>(null);
+  const calendar = useMemo(() => buildCalendar(counts, weeks), [counts, weeks]);
+  const streaks = useMemo(() => computeStreaks(counts), [counts]);
+  const total = useMemo(() => totalContributions(counts), [counts]);
+  const step = CELL_SIZE + CELL_GAP;
+  // The cells can only be inspected by touch, so screen readers get the
+  // calendar as one image with its total and busiest day instead.
+  const calendarLabel = useMemo(() => {
+    const days = calendar.flat();
+    const count = days.reduce((sum, day) => sum + day.count, 0);
+    const busiest = days.reduce<CalendarDay | null>(
+      (best, day) => (day.count > (best?.count ?? 0) ? day : best),
+      null
+    );
+    const summary = t('a11y.contributionCalendar', { count, weeks });
+    return busiest
+      ? `${summary}. ${t('a11y.busiestDay', {
+          day: describeDay(busiest, t, language),
+        })}`
+      : summary;
+  }, [calendar, weeks, t, language]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summary}>
+        <View
+          style={styles.summaryItem}
+          accessible
+          accessibilityLabel={describeStat(total, t('contributions.total'))}>
+          <Text style={styles.summaryNumber}>{total}</Text>
+          <Text style={styles.summaryLabel}>{t('contributions.total')}</Text>
+        </View>
+        <View
+          style={styles.summaryItem}
+          accessible
+          accessibilityLabel={describeStat(
+            streaks.current,
+            t('contributions.currentStreak')
+          )}>
+          <Text style={styles.summaryNumber}>{streaks.current}</Text>
+          <Text style={styles.summaryLabel}>
+            {t('contributions.currentStreak')}
+          </Text>
+        </View>
+        <View
+          style={styles.summaryItem}
+          accessible
+          accessibilityLabel={describeStat(
+            streaks.longest,
+            t('contributions.longestStreak')
+          )}>
+          <Text style={styles.summaryNumber}>{streaks.longest}</Text>
+          <Text style={styles.summaryLabel}>
+            {t('contributions.longestStreak')}
+          </Text>
+        </View>
+      </View>
+
+      <Text
+        style={styles.tooltip}
+        accessibilityElementsHidden
+        importantForAccessibility="no">
+        {selected ? describeDay(selected, t, language) : t('contributions.hint')}
+      </Text>
+
+      <ScrollView
+        accessible
+        accessibilityRole="image"
+        accessibilityLabel={calendarLabel}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        ref={scrollRef}
+        // Start scrolled to the most recent weeks.
+        onContentSizeChange={() =>
+          scrollRef.current?.scrollToEnd({ animated: false })
+        }>
+        <Svg width={calendar.length * step} height={7 * step}>
+          {calendar.map((week, weekIndex) =>
+            week.map((day, dayIndex) => (
+              <Rect
+                key={day.date}
+                x={weekIndex * step}
+                y={dayIndex * step}
+                width={CELL_SIZE}
+                height={CELL_SIZE}
+                rx={2}
+                fill={LEVEL_COLORS[scheme][day.level]}
+                stroke={selected?.date === day.date ? colors.text : undefined}
+                strokeWidth={1}
+                onPress={() => setSelected(day)}
+              />
+            ))
+          )}
+        </Svg>
+      </ScrollView>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      gap: 12,
+    },
+    summary: {
+      flexDirection: 'row',
+      justifyContent: 'space-around',
+    },
+    summaryItem: {
+      alignItems: 'center',
+    },
+    summaryNumber: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    summaryLabel: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    tooltip: {
+      color: colors.textMuted,
+      fontSize: 13,
+    },
+  });
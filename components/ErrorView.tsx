@@ -0,0 +1,70 @@
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { describeError } from '@/lib/github';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface ErrorViewProps {
+  title: string;
+  error: unknown;
+  onRetry: () => void;
+}
+
+export function ErrorView({ title, error, onRetry }: ErrorViewProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  return (
+    <View style={styles.container}>
+      <Ionicons name="cloud-offline" size={48} color={colors.danger} />
+      <Text style={styles.title}>{title}</Text>
+      <Text style={styles.reason}>{describeError(error)}</Text>
+      <Pressable
+        style={styles.retryButton}
+        onPress={onRetry}
+        accessibilityRole="button">
+        <Ionicons name="refresh" size={20} color={colors.onPrimary} />
+        <Text style={styles.retryText}>{t('common.retry')}</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+      padding: 20,
+    },
+    title: {
+      color: colors.danger,
+      fontSize: 18,
+      fontWeight: 'bold',
+      marginTop: 16,
+    },
+    reason: {
+      color: colors.textMuted,
+      fontSize: 14,
+      textAlign: 'center',
+      marginTop: 8,
+    },
+    retryButton: {
+      backgroundColor: colors.primary,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 12,
+      paddingHorizontal: 24,
+      borderRadius: 8,
+      marginTop: 24,
+    },
+    retryText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontWeight: 'bold',
+      marginStart: 8,
+    },
+  });
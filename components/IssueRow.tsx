@@ -0,0 +1,125 @@
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDate } from '@/lib/format';
+import type { Issue, Label } from '@/lib/github';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface IssueRowProps {
+  issue: Issue;
+  onPress: () => void;
+}
+
+export const issueIcon = (issue: Issue, colors: ThemeColors) => {
+  if (issue.pull_request) {
+    if (issue.pull_request.merged_at) {
+      return { name: 'git-merge' as const, color: colors.merged };
+    }
+    return issue.state === 'open'
+      ? { name: 'git-pull-request' as const, color: colors.success }
+      : { name: 'git-pull-request' as const, color: colors.danger };
+  }
+  return issue.state === 'open'
+    ? { name: 'alert-circle' as const, color: colors.success }
+    : { name: 'checkmark-circle' as const, color: colors.merged };
+};
+
+export function LabelChip({ label }: { label: Label }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View
+      style={[
+        styles.label,
+        { borderColor: `#${label.color}`, backgroundColor: `#${label.color}33` },
+      ]}>
+      <Text style={styles.labelText}>{label.name}</Text>
+    </View>
+  );
+}
+
+export function IssueRow({ issue, onPress }: IssueRowProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const icon = issueIcon(issue, colors);
+
+  return (
+    <Pressable style={styles.row} onPress={onPress}>
+      <Ionicons name={icon.name} size={20} color={icon.color} />
+      <View style={styles.body}>
+        <Text style={styles.title}>{issue.title}</Text>
+        {issue.labels.length > 0 && (
+          <View style={styles.labels}>
+            {issue.labels.map((label) => (
+              <LabelChip key={label.id} label={label} />
+            ))}
+          </View>
+        )}
+        <Text style={styles.meta}>
+          {t('issues.opened', {
+            number: issue.number,
+            time: formatDate(issue.created_at),
+            author: issue.user.login,
+          })}
+        </Text>
+      </View>
+      {issue.comments > 0 && (
+        <View style={styles.comments}>
+          <Ionicons
+            name="chatbubble-outline"
+            size={14}
+            color={colors.textMuted}
+          />
+          <Text style={styles.meta}>{issue.comments}</Text>
+        </View>
+      )}
+    </Pressable>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    row: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 12,
+      gap: 12,
+    },
+    body: {
+      flex: 1,
+      gap: 6,
+    },
+    title: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    labels: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 6,
+    },
+    label: {
+      borderWidth: 1,
+      borderRadius: 10,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+    },
+    labelText: {
+      color: colors.text,
+      fontSize: 12,
+    },
+    meta: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    comments: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+  });
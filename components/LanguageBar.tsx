@@ -0,0 +1,36 @@
+import { View, StyleSheet } from 'react-native';
+import { LanguageLegend } from '@/components/LanguageLegend';
+import type { LanguageShare } from '@/lib/languages';
+import type { ThemeColors } from '@/constants/theme';
+import { useThemedStyles } from '@/context/ThemeContext';
+
+export function LanguageBar({ shares }: { shares: LanguageShare[] }) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.container}>
+      <View style={styles.bar}>
+        {shares.map((item) => (
+          <View
+            key={item.language}
+            style={{ flex: item.share, backgroundColor: item.color }}
+          />
+        ))}
+      </View>
+      <LanguageLegend shares={shares} />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    bar: {
+      flexDirection: 'row',
+      height: 10,
+      borderRadius: 5,
+      overflow: 'hidden',
+      gap: 2,
+    },
+  });
@@ -0,0 +1,87 @@
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle, G } from 'react-native-svg';
+import { LanguageLegend } from '@/components/LanguageLegend';
+import type { LanguageShare } from '@/lib/languages';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useThemedStyles } from '@/context/ThemeContext';
+
+interface LanguageDonutProps {
+  shares: LanguageShare[];
+  // Distinct languages, including those folded into the "Other" slice.
+  languageCount: number;
+  size?: number;
+  strokeWidth?: number;
+}
+
+export function LanguageDonut({
+  shares,
+  languageCount,
+  size = 160,
+  strokeWidth = 24,
+}: LanguageDonutProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  let offset = 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={{ width: size, height: size }}>
+        <Svg width={size} height={size}>
+          {/* Start the first slice at 12 o'clock instead of 3 o'clock. */}
+          <G rotation={-90} origin={`${size / 2}, ${size / 2}`}>
+            {shares.map((item) => {
+              const length = item.share * circumference;
+              const slice = (
+                <Circle
+                  key={item.language}
+                  cx={size / 2}
+                  cy={size / 2}
+                  r={radius}
+                  fill="none"
+                  stroke={item.color}
+                  strokeWidth={strokeWidth}
+                  strokeDasharray={`${length} ${circumference - length}`}
+                  strokeDashoffset={-offset}
+                />
+              );
+              offset += length;
+              return slice;
+            })}
+          </G>
+        </Svg>
+        <View style={styles.center}>
+          <Text style={styles.centerNumber}>{languageCount}</Text>
+          <Text style={styles.centerLabel}>
+            {t('languages.count', { count: languageCount })}
+          </Text>
+        </View>
+      </View>
+      <LanguageLegend shares={shares} />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      alignItems: 'center',
+      gap: 16,
+    },
+    center: {
+      ...StyleSheet.absoluteFillObject,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    centerNumber: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    centerLabel: {
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+  });
@@ -0,0 +1,56 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { OTHER_LANGUAGE, type LanguageShare } from '@/lib/languages';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useThemedStyles } from '@/context/ThemeContext';
+
+export const formatShare = (share: number) =>
+  share < 0.001 ? '<0.1%' : `${(share * 100).toFixed(1)}%`;
+
+export function LanguageLegend({ shares }: { shares: LanguageShare[] }) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  return (
+    <View style={styles.legend}>
+      {shares.map((item) => (
+        <View key={item.language} style={styles.legendItem}>
+          <View style={[styles.dot, { backgroundColor: item.color }]} />
+          <Text style={styles.language}>
+            {item.language === OTHER_LANGUAGE
+              ? t('languages.others')
+              : item.language}
+          </Text>
+          <Text style={styles.share}>{formatShare(item.share)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    legend: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 12,
+    },
+    legendItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    dot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginEnd: 6,
+    },
+    language: {
+      color: colors.text,
+      fontSize: 14,
+      marginEnd: 4,
+    },
+    share: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+  });
@@ -0,0 +1,529 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Linking,
+  Platform,
+} from 'react-native';
+import {
+  highlight,
+  htmlImages,
+  htmlToText,
+  parseMarkdown,
+  resolveUrl,
+  type MarkdownSource,
+  type Token,
+  type Tokens,
+} from '@/lib/markdown';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+import type { ColorScheme, ThemeColors } from '@/constants/theme';
+
+interface MarkdownProps {
+  content: string;
+  // Repo the document belongs to, for resolving relative links and images.
+  source?: MarkdownSource;
+}
+
+const monospace = Platform.select({
+  ios: 'Menlo',
+  default: 'monospace',
+});
+
+const syntaxColors: Record<ColorScheme, Record<string, string>> = {
+  dark: {
+    comment: '#718096',
+    prolog: '#718096',
+    keyword: '#B794F4',
+    boolean: '#F6AD55',
+    number: '#F6AD55',
+    string: '#68D391',
+    char: '#68D391',
+    'template-string': '#68D391',
+    function: '#63B3ED',
+    'class-name': '#F6E05E',
+    builtin: '#F6E05E',
+    operator: '#81E6D9',
+    property: '#FC8181',
+    tag: '#FC8181',
+    'attr-name': '#F6AD55',
+    'attr-value': '#68D391',
+    inserted: '#68D391',
+    deleted: '#FC8181',
+  },
+  light: {
+    comment: '#718096',
+    prolog: '#718096',
+    keyword: '#6B46C1',
+    boolean: '#C05621',
+    number: '#C05621',
+    string: '#2F855A',
+    char: '#2F855A',
+    'template-string': '#2F855A',
+    function: '#2B6CB0',
+    'class-name': '#B7791F',
+    builtin: '#B7791F',
+    operator: '#2C7A7B',
+    property: '#C53030',
+    tag: '#C53030',
+    'attr-name': '#C05621',
+    'attr-value': '#2F855A',
+    inserted: '#2F855A',
+    deleted: '#C53030',
+  },
+};
+
+// Render helpers are plain functions rather than components, so the theme
+// and link base are threaded through explicitly.
+interface RenderContext {
+  source: MarkdownSource | undefined;
+  styles: ReturnType<typeof createStyles>;
+  headingStyles: ReturnType<typeof createHeadingStyles>;
+  syntaxColors: Record<string, string>;
+}
+
+// A null `uri` is an image URL that was not allowed; it shows the alt text.
+function MarkdownImage({ uri, alt }: { uri: string | null; alt: string }) {
+  const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+  const [failed, setFailed] = useState(false);
+  const styles = useThemedStyles(createStyles);
+
+  // React Native cannot draw SVG through <Image>, so badges and diagrams in
+  // that format degrade to their alt text.
+  if (!uri || failed || /\.svg($|\?)/i.test(uri)) {
+    return alt ? <Text style={styles.imageAlt}>{alt}</Text> : null;
+  }
+
+  return (
+    <Image
+      source={{ uri }}
+      accessibilityLabel={alt}
+      resizeMode="contain"
+      onLoad={({ nativeEvent }) => {
+        const { width, height } = nativeEvent.source;
+        if (width && height) setAspectRatio(width / height);
+      }}
+      onError={() => setFailed(true)}
+      style={[styles.image, { aspectRatio: aspectRatio ?? 16 / 9 }]}
+    />
+  );
+}
+
+const openUrl = (url: string) => {
+  Linking.openURL(url).catch(() => undefined);
+};
+
+function renderInline(
+  tokens: Token[] | undefined,
+  ctx: RenderContext
+): ReactNode[] {
+  return (tokens ?? []).map((token, index) => {
+    switch (token.type) {
+      case 'strong':
+        return (
+          <Text key={index} style={ctx.styles.strong}>
+            {renderInline(token.tokens, ctx)}
+          </Text>
+        );
+      case 'em':
+        return (
+          <Text key={index} style={ctx.styles.em}>
+            {renderInline(token.tokens, ctx)}
+          </Text>
+        );
+      case 'del':
+        return (
+          <Text key={index} style={ctx.styles.del}>
+            {renderInline(token.tokens, ctx)}
+          </Text>
+        );
+      case 'codespan':
+        return (
+          <Text key={index} style={ctx.styles.codespan}>
+            {htmlToText(token.text)}
+          </Text>
+        );
+      case 'br':
+        return '\n';
+      case 'link': {
+        const link = token as Tokens.Link;
+        const href = resolveUrl(link.href, ctx.source, 'link');
+        if (!href) {
+          return <Text key={index}>{renderInline(link.tokens, ctx)}</Text>;
+        }
+        return (
+          <Text
+            key={index}
+            style={ctx.styles.link}
+            onPress={() => openUrl(href)}>
+            {renderInline(link.tokens, ctx)}
+          </Text>
+        );
+      }
+      case 'image':
+        return (token as Tokens.Image).text;
+      case 'html':
+        return htmlToText(token.text);
+      case 'text': {
+        const text = token as Tokens.Text;
+        return text.tokens
+          ? renderInline(text.tokens, ctx)
+          : htmlToText(text.text);
+      }
+      default:
+        return 'text' in token ? htmlToText(String(token.text)) : null;
+    }
+  });
+}
+
+const isImage = (token: Token) =>
+  token.type === 'image' ||
+  (token.type === 'link' && (token as Tokens.Link).tokens.some(isImage));
+
+// Paragraphs that contain images are laid out as a wrapping row, since
+// images cannot be nested inside <Text> reliably across platforms.
+function renderImageParagraph(
+  tokens: Token[],
+  ctx: RenderContext
+) {
+  return tokens.map((token, index) => {
+    if (token.type === 'image') {
+      const image = token as Tokens.Image;
+      return (
+        <MarkdownImage
+          key={index}
+          uri={resolveUrl(image.href, ctx.source, 'image')}
+          alt={image.text}
+        />
+      );
+    }
+    if (token.type === 'link' && isImage(token)) {
+      const link = token as Tokens.Link;
+      const href = resolveUrl(link.href, ctx.source, 'link');
+      if (!href) {
+        return (
+          <View key={index}>{renderImageParagraph(link.tokens, ctx)}</View>
+        );
+      }
+      return (
+        <Pressable key={index} onPress={() => openUrl(href)}>
+          {renderImageParagraph(link.tokens, ctx)}
+        </Pressable>
+      );
+    }
+    if ('raw' in token && !token.raw.trim()) {
+      return null;
+    }
+    return (
+      <Text key={index} style={ctx.styles.paragraph}>
+        {renderInline([token], ctx)}
+      </Text>
+    );
+  });
+}
+
+function renderBlock(
+  token: Token,
+  key: number,
+  ctx: RenderContext
+): ReactNode {
+  switch (token.type) {
+    case 'heading': {
+      const heading = token as Tokens.Heading;
+      return (
+        <Text
+          key={key}
+          accessibilityRole="header"
+          style={[
+            ctx.styles.heading,
+            ctx.headingStyles[
+              `h${Math.min(heading.depth, 6)}` as keyof typeof ctx.headingStyles
+            ],
+          ]}>
+          {renderInline(heading.tokens, ctx)}
+        </Text>
+      );
+    }
+    case 'paragraph': {
+      const paragraph = token as Tokens.Paragraph;
+      if (paragraph.tokens.some(isImage)) {
+        return (
+          <View key={key} style={ctx.styles.imageRow}>
+            {renderImageParagraph(paragraph.tokens, ctx)}
+          </View>
+        );
+      }
+      return (
+        <Text key={key} style={ctx.styles.paragraph}>
+          {renderInline(paragraph.tokens, ctx)}
+        </Text>
+      );
+    }
+    case 'text': {
+      const text = token as Tokens.Text;
+      return (
+        <Text key={key} style={ctx.styles.paragraph}>
+          {text.tokens
+            ? renderInline(text.tokens, ctx)
+            : htmlToText(text.text)}
+        </Text>
+      );
+    }
+    case 'list': {
+      const list = token as Tokens.List;
+      const start = typeof list.start === 'number' ? list.start : 1;
+      return (
+        <View key={key} style={ctx.styles.list}>
+          {list.items.map((item, index) => (
+            <View key={index} style={ctx.styles.listItem}>
+              <Text style={ctx.styles.bullet}>
+                {item.task
+                  ? item.checked
+                    ? '☑'
+                    : '☐'
+                  : list.ordered
+                    ? `${start + index}.`
+                    : '•'}
+              </Text>
+              <View style={ctx.styles.listItemContent}>
+                {item.tokens.map((child, childIndex) =>
+                  renderBlock(child, childIndex, ctx)
+                )}
+              </View>
+            </View>
+          ))}
+        </View>
+      );
+    }
+    case 'code': {
+      const code = token as Tokens.Code;
+      return (
+        <ScrollView
+          key={key}
+          horizontal
+          style={ctx.styles.codeBlock}
+          contentContainerStyle={ctx.styles.codeBlockContent}>
+          <Text style={ctx.styles.code}>
+            {highlight(code.text, code.lang).map((span, index) => (
+              <Text
+                key={index}
+                style={
+                  span.type && ctx.syntaxColors[span.type]
+                    ? { color: ctx.syntaxColors[span.type] }
+                    : undefined
+                }>
+                {span.text}
+              </Text>
+            ))}
+          </Text>
+        </ScrollView>
+      );
+    }
+    case 'blockquote': {
+      const quote = token as Tokens.Blockquote;
+      return (
+        <View key={key} style={ctx.styles.blockquote}>
+          {quote.tokens.map((child, index) => renderBlock(child, index, ctx))}
+        </View>
+      );
+    }
+    case 'table': {
+      const table = token as Tokens.Table;
+      const renderRow = (cells: Tokens.TableCell[], header: boolean) =>
+        cells.map((cell, index) => (
+          <View
+            key={index}
+            style={[ctx.styles.tableCell, header && ctx.styles.tableHeaderCell]}>
+            <Text
+              style={[
+                ctx.styles.tableText,
+                header && ctx.styles.strong,
+                { textAlign: table.align[index] ?? 'auto' },
+              ]}>
+              {renderInline(cell.tokens, ctx)}
+            </Text>
+          </View>
+        ));
+      return (
+        <ScrollView key={key} horizontal style={ctx.styles.table}>
+          <View>
+            <View style={ctx.styles.tableRow}>
+              {renderRow(table.header, true)}
+            </View>
+            {table.rows.map((row, index) => (
+              <View key={index} style={ctx.styles.tableRow}>
+                {renderRow(row, false)}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      );
+    }
+    case 'hr':
+      return <View key={key} style={ctx.styles.hr} />;
+    case 'html': {
+      const images = htmlImages(token.text);
+      const text = htmlToText(token.text);
+      if (!images.length && !text) return null;
+      return (
+        <View key={key} style={ctx.styles.imageRow}>
+          {images.map((image, index) => (
+            <MarkdownImage
+              key={index}
+              uri={resolveUrl(image.src, ctx.source, 'image')}
+              alt={image.alt}
+            />
+          ))}
+          {!!text && <Text style={ctx.styles.paragraph}>{text}</Text>}
+        </View>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+export function Markdown({ content, source }: MarkdownProps) {
+  const { scheme } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const headingStyles = useThemedStyles(createHeadingStyles);
+  const tokens = useMemo(() => parseMarkdown(content), [content]);
+  const ctx: RenderContext = {
+    source,
+    styles,
+    headingStyles,
+    syntaxColors: syntaxColors[scheme],
+  };
+
+  return (
+    <View style={styles.container}>
+      {tokens.map((token, index) => renderBlock(token, index, ctx))}
+    </View>
+  );
+}
+
+const createHeadingStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    h1: { fontSize: 26 },
+    h2: { fontSize: 22 },
+    h3: { fontSize: 19 },
+    h4: { fontSize: 17 },
+    h5: { fontSize: 15 },
+    h6: { fontSize: 14, color: colors.textMuted },
+  });
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    heading: {
+      fontWeight: 'bold',
+      color: colors.text,
+      marginTop: 8,
+    },
+    paragraph: {
+      fontSize: 15,
+      lineHeight: 22,
+      color: colors.text,
+    },
+    strong: {
+      fontWeight: 'bold',
+    },
+    em: {
+      fontStyle: 'italic',
+    },
+    del: {
+      textDecorationLine: 'line-through',
+    },
+    link: {
+      color: colors.link,
+    },
+    codespan: {
+      fontFamily: monospace,
+      backgroundColor: colors.surface,
+      color: colors.text,
+    },
+    codeBlock: {
+      backgroundColor: colors.codeBackground,
+      borderRadius: 8,
+    },
+    codeBlockContent: {
+      padding: 12,
+    },
+    code: {
+      fontFamily: monospace,
+      fontSize: 13,
+      lineHeight: 20,
+      color: colors.text,
+    },
+    list: {
+      gap: 6,
+    },
+    listItem: {
+      flexDirection: 'row',
+    },
+    bullet: {
+      color: colors.textMuted,
+      fontSize: 15,
+      lineHeight: 22,
+      width: 24,
+    },
+    listItemContent: {
+      flex: 1,
+      gap: 6,
+    },
+    blockquote: {
+      borderStartWidth: 4,
+      borderStartColor: colors.border,
+      paddingStart: 12,
+      gap: 8,
+    },
+    table: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+    },
+    tableRow: {
+      flexDirection: 'row',
+    },
+    tableCell: {
+      width: 140,
+      padding: 8,
+      borderBottomWidth: 1,
+      borderEndWidth: 1,
+      borderColor: colors.border,
+    },
+    tableHeaderCell: {
+      backgroundColor: colors.surface,
+    },
+    tableText: {
+      color: colors.text,
+      fontSize: 14,
+    },
+    hr: {
+      height: 1,
+      backgroundColor: colors.border,
+    },
+    imageRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: 8,
+    },
+    image: {
+      width: '100%',
+      borderRadius: 8,
+    },
+    imageAlt: {
+      color: colors.textMuted,
+      fontSize: 13,
+      backgroundColor: colors.surface,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+      borderRadius: 4,
+    },
+  });
@@ -0,0 +1,51 @@
+import Head from 'expo-router/head';
+import Constants from 'expo-constants';
+
+const SITE_URL: string = Constants.expoConfig?.extra?.siteUrl ?? '';
+const SITE_NAME = Constants.expoConfig?.name ?? '';
+
+interface PageMetaProps {
+  title: string;
+  description?: string | null;
+  // Route path, e.g. `/repo/owner/name`.
+  path: string;
+  image?: string | null;
+  // Wide images get the large Twitter card.
+  largeImage?: boolean;
+}
+
+/** Document title plus the meta tags link previews are built from. */
+export function PageMeta({
+  title,
+  description,
+  path,
+  image,
+  largeImage = false,
+}: PageMetaProps) {
+  const fullTitle = `${title} · ${SITE_NAME}`;
+  const url = `${SITE_URL}${path}`;
+  return (
+    <Head>
+      <title>{fullTitle}</title>
+      {!!description && <meta name="description" content={description} />}
+      <link rel="canonical" href={url} />
+      <meta property="og:type" content="website" />
+      <meta property="og:site_name" content={SITE_NAME} />
+      <meta property="og:title" content={fullTitle} />
+      {!!description && (
+        <meta property="og:description" content={description} />
+      )}
+      <meta property="og:url" content={url} />
+      {!!image && <meta property="og:image" content={image} />}
+      <meta
+        name="twitter:card"
+        content={largeImage ? 'summary_large_image' : 'summary'}
+      />
+      <meta name="twitter:title" content={fullTitle} />
+      {!!description && (
+        <meta name="twitter:description" content={description} />
+      )}
+      {!!image && <meta name="twitter:image" content={image} />}
+    </Head>
+  );
+}
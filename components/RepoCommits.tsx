@@ -0,0 +1,182 @@
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  Pressable,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import { Sparkline } from '@/components/Sparkline';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { formatDate } from '@/lib/format';
+import {
+  getCommitActivity,
+  getCommitsPage,
+  describeError,
+  type Commit,
+  type WeeklyCommitActivity,
+} from '@/lib/github';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface RepoCommitsProps {
+  owner: string;
+  name: string;
+}
+
+function CommitRow({ commit }: { commit: Commit }) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const date = commit.commit.author?.date;
+  const message = commit.commit.message.split('\n')[0];
+  const author =
+    commit.author?.login ?? commit.commit.author?.name ?? t('common.unknown');
+
+  return (
+    <Pressable
+      style={styles.commitRow}
+      onPress={() => Linking.openURL(commit.html_url)}
+      accessibilityRole="link"
+      accessibilityLabel={t('a11y.commit', {
+        sha: commit.sha.slice(0, 7),
+        author,
+        message,
+      })}
+      accessibilityHint={t('a11y.openInBrowser')}>
+      {commit.author ? (
+        <Image
+          source={{ uri: commit.author.avatar_url }}
+          style={styles.avatar}
+        />
+      ) : (
+        <View style={styles.avatar} />
+      )}
+      <View style={styles.commitBody}>
+        <Text style={styles.message} numberOfLines={2}>
+          {message}
+        </Text>
+        <Text style={styles.meta}>
+          {author}
+          {date ? ` · ${formatDate(date)}` : ''}
+        </Text>
+      </View>
+      <Text style={styles.sha}>{commit.sha.slice(0, 7)}</Text>
+    </Pressable>
+  );
+}
+
+export function RepoCommits({ owner, name }: RepoCommitsProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const activity = useCachedQuery<WeeklyCommitActivity[]>(
+    `commit-activity:${owner}/${name}`,
+    () => getCommitActivity(owner, name)
+  );
+  const { items, loading, error, hasMore, loadingMore, loadMore } =
+    usePagedQuery<Commit>(`commits:${owner}/${name}`, (next) =>
+      getCommitsPage(owner, name, next)
+    );
+  const weeklyTotals = activity.data?.map((week) => week.total) ?? [];
+  const yearTotal = weeklyTotals.reduce((acc, total) => acc + total, 0);
+
+  return (
+    <View style={styles.container}>
+      {weeklyTotals.length > 0 && (
+        <View style={styles.activityCard}>
+          <Text style={styles.activityTitle}>
+            {t('repo.commitsInLastYear', { count: yearTotal })}
+          </Text>
+          <Sparkline values={weeklyTotals} />
+        </View>
+      )}
+
+      {loading && !items ? (
+        <ActivityIndicator color={colors.primary} />
+      ) : !items ? (
+        <Text style={styles.meta}>{describeError(error)}</Text>
+      ) : (
+        items.map((commit) => <CommitRow key={commit.sha} commit={commit} />)
+      )}
+
+      {hasMore && (
+        <Pressable
+          style={styles.moreButton}
+          onPress={loadMore}
+          accessibilityRole="button"
+          accessibilityLabel={t('repo.loadMoreCommits')}
+          accessibilityState={{ busy: loadingMore }}>
+          {loadingMore ? (
+            <ActivityIndicator color={colors.text} />
+          ) : (
+            <Text style={styles.moreText}>{t('repo.loadMoreCommits')}</Text>
+          )}
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    activityCard: {
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      gap: 12,
+    },
+    activityTitle: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: 'bold',
+    },
+    commitRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      padding: 12,
+      borderRadius: 12,
+    },
+    avatar: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+      backgroundColor: colors.border,
+      marginEnd: 12,
+    },
+    commitBody: {
+      flex: 1,
+      gap: 4,
+    },
+    message: {
+      color: colors.text,
+      fontSize: 14,
+    },
+    meta: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    sha: {
+      color: colors.link,
+      fontSize: 12,
+      fontFamily: 'monospace',
+      marginStart: 8,
+    },
+    moreButton: {
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      padding: 12,
+      borderRadius: 12,
+    },
+    moreText: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: 'bold',
+    },
+  });
@@ -0,0 +1,560 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ScrollView,
+  Linking,
+  RefreshControl,
+} from 'react-native';
+import { Link, router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { AnimatedCounter } from '@/components/AnimatedCounter';
+import { Chip } from '@/components/Chip';
+import { ErrorView } from '@/components/ErrorView';
+import { LanguageBar } from '@/components/LanguageBar';
+import { Markdown } from '@/components/Markdown';
+import { RepoCommits } from '@/components/RepoCommits';
+import { RepoReleases } from '@/components/RepoReleases';
+import { ScreenHeader } from '@/components/ScreenHeader';
+import { SyncBanner } from '@/components/SyncBanner';
+import { useCollections } from '@/context/CollectionsContext';
+import { useWatch } from '@/context/WatchContext';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { isBackgroundRefreshSupported } from '@/lib/backgroundRefresh';
+import { includesRepo } from '@/lib/collections';
+import { describeStat, formatDate } from '@/lib/format';
+import {
+  decodeContent,
+  getReadme,
+  getRepo,
+  getRepoLanguages,
+  NotFoundError,
+  type Readme,
+  type Repository,
+} from '@/lib/github';
+import type { TranslationKey } from '@/lib/i18n';
+import { toShares } from '@/lib/languages';
+import { CHANGE_TYPES, type ChangeType } from '@/lib/repoChanges';
+import { getStaticRepo } from '@/lib/staticData';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+type DetailTab = 'overview' | 'commits' | 'releases';
+
+const TABS: { value: DetailTab; label: TranslationKey }[] = [
+  { value: 'overview', label: 'repo.tabs.overview' },
+  { value: 'commits', label: 'repo.tabs.commits' },
+  { value: 'releases', label: 'repo.tabs.releases' },
+];
+
+const CHANGE_LABELS: Record<ChangeType, TranslationKey> = {
+  stars: 'notifications.types.stars',
+  release: 'notifications.types.release',
+  issue: 'notifications.types.issue',
+};
+
+interface RepoDetailsProps {
+  owner: string;
+  name: string;
+  // Shown in a side pane next to the repo list instead of as a screen.
+  embedded?: boolean;
+  // Rendered in every state, so the route can keep its <head> tags.
+  renderMeta?: (repo: Repository | null) => ReactNode;
+}
+
+export function RepoDetails({
+  owner,
+  name,
+  embedded = false,
+  renderMeta,
+}: RepoDetailsProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { collections, isPinned, togglePinned, toggleInCollection } =
+    useCollections();
+  const watch = useWatch();
+  const { data: repo, syncedAt, loading, refreshing, error, refresh } =
+    useCachedQuery<Repository>(
+      `repo:${owner}/${name}`,
+      () => getRepo(owner, name),
+      getStaticRepo(owner, name)
+    );
+  const readme = useCachedQuery<Readme | null>(
+    `readme:${owner}/${name}`,
+    () =>
+      getReadme(owner, name).catch((err) => {
+        if (err instanceof NotFoundError) return null;
+        throw err;
+      })
+  );
+  const readmeText = useMemo(
+    () => (readme.data ? decodeContent(readme.data.content) : null),
+    [readme.data]
+  );
+
+  const languages = useCachedQuery<Record<string, number>>(
+    `languages:${owner}/${name}`,
+    () => getRepoLanguages(owner, name)
+  );
+  const languageShares = useMemo(
+    () => toShares(languages.data ?? {}),
+    [languages.data]
+  );
+
+  const [tab, setTab] = useState<DetailTab>('overview');
+  // Bumped on pull-to-refresh so the commit and release lists remount and
+  // revalidate too.
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const refreshAll = () => {
+    refresh();
+    readme.refresh();
+    languages.refresh();
+    setRefreshCount((count) => count + 1);
+  };
+
+  const meta = renderMeta?.(repo);
+  const Container = embedded ? View : SafeAreaView;
+
+  if (loading || (refreshing && !repo)) {
+    return (
+      <View style={styles.loadingContainer}>
+        {meta}
+        <Text style={styles.loadingText}>{t('repo.loading')}</Text>
+      </View>
+    );
+  }
+
+  if (!repo) {
+    return (
+      <>
+        {meta}
+        <ErrorView
+          title={t('repo.loadFailed')}
+          error={error}
+          onRetry={refresh}
+        />
+      </>
+    );
+  }
+
+  return (
+    <Container
+      style={styles.container}
+      // Keeps VoiceOver from wandering into the screen underneath.
+      accessibilityViewIsModal={!embedded}>
+      {meta}
+      <ScreenHeader
+        title={repo.name}
+        subtitle={repo.owner.login}
+        fallback={embedded ? undefined : '/projects'}
+        autoFocus
+        actions={
+          <Pressable
+            style={styles.pinButton}
+            onPress={() => togglePinned(repo.full_name)}
+            accessibilityRole="button"
+            accessibilityLabel={
+              isPinned(repo.full_name) ? t('a11y.unpin') : t('a11y.pin')
+            }>
+            <Ionicons
+              name={isPinned(repo.full_name) ? 'pin' : 'pin-outline'}
+              size={24}
+              color={isPinned(repo.full_name) ? colors.star : colors.textMuted}
+            />
+          </Pressable>
+        }
+      />
+      <SyncBanner syncedAt={syncedAt} failed={!!error} />
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={refreshAll}
+            tintColor={colors.primary}
+          />
+        }>
+        <Text style={styles.description}>
+          {repo.description || t('repo.noDescription')}
+        </Text>
+
+        <View style={styles.statsGrid}>
+          <View
+            style={styles.statItem}
+            accessible
+            accessibilityLabel={describeStat(
+              repo.stargazers_count,
+              t('repo.stars')
+            )}>
+            <Ionicons name="star" size={20} color={colors.star} />
+            <AnimatedCounter
+              value={repo.stargazers_count}
+              style={styles.statNumber}
+            />
+            <Text style={styles.statLabel}>{t('repo.stars')}</Text>
+          </View>
+
+          <View
+            style={styles.statItem}
+            accessible
+            accessibilityLabel={describeStat(
+              repo.forks_count,
+              t('repo.forks')
+            )}>
+            <Ionicons name="git-network" size={20} color={colors.primary} />
+            <AnimatedCounter
+              value={repo.forks_count}
+              style={styles.statNumber}
+            />
+            <Text style={styles.statLabel}>{t('repo.forks')}</Text>
+          </View>
+
+          <Pressable
+            style={styles.statItem}
+            onPress={() =>
+              router.push({
+                pathname: '/repo/[owner]/[name]/issues',
+                params: { owner, name },
+              })
+            }
+            accessibilityRole="button"
+            accessibilityLabel={describeStat(
+              repo.open_issues_count,
+              t('repo.issues')
+            )}>
+            <Ionicons name="alert-circle" size={20} color={colors.danger} />
+            <AnimatedCounter
+              value={repo.open_issues_count}
+              style={styles.statNumber}
+            />
+            <Text style={styles.statLabel}>{t('repo.issues')}</Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.tabBar} accessibilityRole="tablist">
+          {TABS.map((option) => (
+            <Pressable
+              key={option.value}
+              style={[styles.tab, tab === option.value && styles.tabActive]}
+              onPress={() => setTab(option.value)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: tab === option.value }}>
+              <Text
+                style={[
+                  styles.tabText,
+                  tab === option.value && styles.tabTextActive,
+                ]}>
+                {t(option.label)}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {tab === 'overview' && (
+          <>
+            {languageShares.length > 0 && (
+              <View style={styles.languagesContainer}>
+                <Text style={styles.topicsTitle}>{t('repo.languages')}</Text>
+                <LanguageBar shares={languageShares} />
+              </View>
+            )}
+
+            <View style={styles.collectionsContainer}>
+              <View style={styles.collectionsHeader}>
+                <Text style={styles.topicsTitle}>
+                  {t('collections.addTo')}
+                </Text>
+                <Link href="/collections" asChild>
+                  <Pressable accessibilityRole="link">
+                    <Text style={styles.manageText}>
+                      {t('collections.manage')}
+                    </Text>
+                  </Pressable>
+                </Link>
+              </View>
+              <View style={styles.topicsList}>
+                {collections.map((collection) => (
+                  <View key={collection.id} style={styles.chipItem}>
+                    <Chip
+                      label={collection.name}
+                      active={includesRepo(collection.repos, repo.full_name)}
+                      onPress={() =>
+                        toggleInCollection(collection.id, repo.full_name)
+                      }
+                    />
+                  </View>
+                ))}
+              </View>
+            </View>
+
+            {isBackgroundRefreshSupported && (
+              <View style={styles.watchContainer}>
+                <Text style={styles.topicsTitle}>
+                  {t('notifications.watch')}
+                </Text>
+                <View style={styles.topicsList}>
+                  {CHANGE_TYPES.map((type) => (
+                    <View key={type} style={styles.chipItem}>
+                      <Chip
+                        label={t(CHANGE_LABELS[type])}
+                        active={watch
+                          .typesFor(repo.full_name)
+                          .includes(type)}
+                        onPress={() => watch.toggleType(repo.full_name, type)}
+                      />
+                    </View>
+                  ))}
+                </View>
+                {!watch.enabled && (
+                  <Text style={styles.dateText}>
+                    {t('notifications.enableHint')}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <View style={styles.datesContainer}>
+              <Text style={styles.dateText}>
+                {t('common.created', { time: formatDate(repo.created_at) })}
+              </Text>
+              <Text style={styles.dateText}>
+                {t('common.lastUpdated', {
+                  time: formatDate(repo.updated_at),
+                })}
+              </Text>
+            </View>
+
+            {repo.topics && repo.topics.length > 0 && (
+              <View style={styles.topicsContainer}>
+                <Text style={styles.topicsTitle}>{t('repo.topics')}</Text>
+                <View style={styles.topicsList}>
+                  {repo.topics.map((topic) => (
+                    <View key={topic} style={styles.topicTag}>
+                      <Text style={styles.topicText}>{topic}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            <View style={styles.readmeContainer}>
+              <Text style={styles.topicsTitle}>{t('repo.readme')}</Text>
+              {readmeText && readme.data ? (
+                <Markdown
+                  content={readmeText}
+                  source={{
+                    owner: repo.owner.login,
+                    name: repo.name,
+                    branch: repo.default_branch,
+                    path: readme.data.path,
+                  }}
+                />
+              ) : (
+                <Text style={styles.dateText}>
+                  {readme.loading
+                    ? t('repo.readmeLoading')
+                    : readme.error
+                      ? t('repo.readmeFailed')
+                      : t('repo.readmeMissing')}
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+
+        {tab === 'commits' && (
+          <View style={styles.tabContent}>
+            <RepoCommits key={refreshCount} owner={owner} name={name} />
+          </View>
+        )}
+
+        {tab === 'releases' && (
+          <View style={styles.tabContent}>
+            <RepoReleases
+              key={refreshCount}
+              owner={owner}
+              name={name}
+              source={{
+                owner: repo.owner.login,
+                name: repo.name,
+                branch: repo.default_branch,
+                path: '',
+              }}
+            />
+          </View>
+        )}
+
+        <Pressable
+          style={styles.viewOnGithubButton}
+          onPress={() => Linking.openURL(repo.html_url)}
+          accessibilityRole="link"
+          accessibilityHint={t('a11y.openInBrowser')}>
+          <Ionicons name="logo-github" size={20} color={colors.text} />
+          <Text style={styles.viewOnGithubText}>
+            {t('common.viewOnGitHub')}
+          </Text>
+        </Pressable>
+      </ScrollView>
+    </Container>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    loadingContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.background,
+    },
+    loadingText: {
+      color: colors.textMuted,
+      fontSize: 16,
+    },
+    content: {
+      padding: 20,
+    },
+    pinButton: {
+      padding: 8,
+    },
+    description: {
+      fontSize: 16,
+      color: colors.textMuted,
+      marginBottom: 24,
+      lineHeight: 24,
+    },
+    statsGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'space-around',
+      gap: 16,
+      marginBottom: 24,
+    },
+    statItem: {
+      alignItems: 'center',
+    },
+    statNumber: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginVertical: 8,
+    },
+    statLabel: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    tabBar: {
+      flexDirection: 'row',
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 4,
+      marginBottom: 24,
+    },
+    tab: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderRadius: 8,
+    },
+    tabActive: {
+      backgroundColor: colors.primary,
+    },
+    tabText: {
+      color: colors.textMuted,
+      fontSize: 14,
+      fontWeight: 'bold',
+    },
+    tabTextActive: {
+      color: colors.onPrimary,
+    },
+    tabContent: {
+      marginBottom: 24,
+    },
+    languagesContainer: {
+      marginBottom: 24,
+    },
+    collectionsContainer: {
+      marginBottom: 24,
+    },
+    collectionsHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'baseline',
+    },
+    manageText: {
+      color: colors.link,
+      fontSize: 14,
+    },
+    watchContainer: {
+      marginBottom: 24,
+      gap: 8,
+    },
+    chipItem: {
+      margin: 4,
+    },
+    datesContainer: {
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 24,
+      gap: 8,
+    },
+    dateText: {
+      color: colors.textMuted,
+      fontSize: 14,
+    },
+    topicsContainer: {
+      marginBottom: 24,
+    },
+    topicsTitle: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 12,
+    },
+    topicsList: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginHorizontal: -4,
+    },
+    topicTag: {
+      backgroundColor: colors.primary,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      margin: 4,
+    },
+    topicText: {
+      color: colors.onPrimary,
+      fontSize: 14,
+    },
+    readmeContainer: {
+      marginBottom: 24,
+    },
+    viewOnGithubButton: {
+      backgroundColor: colors.surface,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 16,
+      borderRadius: 12,
+      marginTop: 8,
+    },
+    viewOnGithubText: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: 'bold',
+      marginStart: 8,
+    },
+  });
@@ -0,0 +1,150 @@
+import { View, TextInput, StyleSheet, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Chip } from '@/components/Chip';
+import {
+  REPO_TYPE_OPTIONS,
+  SORT_OPTIONS,
+  type RepoFilters,
+} from '@/lib/repoFilters';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface RepoFilterBarProps {
+  filters: RepoFilters;
+  languages: string[];
+  topics: string[];
+  // Repo type chips map to the org repos endpoint, so only orgs get them.
+  showTypes?: boolean;
+  onChange: (changes: Partial<RepoFilters>) => void;
+}
+
+export function RepoFilterBar({
+  filters,
+  languages,
+  topics,
+  showTypes = false,
+  onChange,
+}: RepoFilterBarProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color={colors.textMuted} />
+        <TextInput
+          style={styles.searchInput}
+          value={filters.query}
+          onChangeText={(query) => onChange({ query })}
+          placeholder={t('filters.searchPlaceholder')}
+          placeholderTextColor={colors.textSubtle}
+          autoCapitalize="none"
+          autoCorrect={false}
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        {SORT_OPTIONS.map((option) => (
+          <Chip
+            key={option.value}
+            label={t(option.label)}
+            active={filters.sort === option.value}
+            onPress={() => onChange({ sort: option.value })}
+          />
+        ))}
+      </ScrollView>
+
+      {showTypes && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.row}>
+          {REPO_TYPE_OPTIONS.map((option) => (
+            <Chip
+              key={option.value}
+              label={t(option.label)}
+              active={filters.type === option.value}
+              onPress={() => onChange({ type: option.value })}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.row}>
+        <Chip
+          label={t('filters.hideForks')}
+          active={filters.hideForks}
+          onPress={() => onChange({ hideForks: !filters.hideForks })}
+        />
+        <Chip
+          label={t('filters.hideArchived')}
+          active={filters.hideArchived}
+          onPress={() => onChange({ hideArchived: !filters.hideArchived })}
+        />
+        {languages.map((language) => (
+          <Chip
+            key={language}
+            label={language}
+            active={filters.language === language}
+            onPress={() =>
+              onChange({
+                language: filters.language === language ? null : language,
+              })
+            }
+          />
+        ))}
+      </ScrollView>
+
+      {topics.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.row}>
+          {topics.map((topic) => (
+            <Chip
+              key={topic}
+              label={`#${topic}`}
+              active={filters.topic === topic}
+              onPress={() =>
+                onChange({ topic: filters.topic === topic ? null : topic })
+              }
+            />
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+      gap: 12,
+    },
+    searchBox: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+    },
+    searchInput: {
+      flex: 1,
+      color: colors.text,
+      fontSize: 16,
+      paddingVertical: 10,
+      marginStart: 8,
+    },
+    row: {
+      gap: 8,
+    },
+  });
@@ -0,0 +1,138 @@
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Markdown } from '@/components/Markdown';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import { formatDate } from '@/lib/format';
+import { describeError, getReleasesPage, type Release } from '@/lib/github';
+import type { MarkdownSource } from '@/lib/markdown';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface RepoReleasesProps {
+  owner: string;
+  name: string;
+  source: MarkdownSource;
+}
+
+export function RepoReleases({ owner, name, source }: RepoReleasesProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { items, loading, error, hasMore, loadingMore, loadMore } =
+    usePagedQuery<Release>(`releases:${owner}/${name}`, (next) =>
+      getReleasesPage(owner, name, next)
+    );
+
+  if (loading && !items) {
+    return <ActivityIndicator color={colors.primary} />;
+  }
+  if (!items) {
+    return <Text style={styles.meta}>{describeError(error)}</Text>;
+  }
+  if (!items.length) {
+    return <Text style={styles.meta}>{t('repo.noReleases')}</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {items.map((release) => (
+        <View key={release.id} style={styles.releaseCard}>
+          <Pressable
+            style={styles.releaseHeader}
+            onPress={() => Linking.openURL(release.html_url)}
+            accessibilityRole="link"
+            accessibilityLabel={t('a11y.release', {
+              name: release.name || release.tag_name,
+            })}
+            accessibilityHint={t('a11y.openInBrowser')}>
+            <Ionicons name="pricetag" size={18} color={colors.release} />
+            <Text style={styles.releaseName}>
+              {release.name || release.tag_name}
+            </Text>
+            {release.prerelease && (
+              <Text style={styles.badge}>{t('repo.preRelease')}</Text>
+            )}
+          </Pressable>
+          <Text style={styles.meta}>
+            {release.tag_name} · {formatDate(release.published_at)}
+          </Text>
+          {!!release.body && (
+            <Markdown content={release.body} source={source} />
+          )}
+        </View>
+      ))}
+
+      {hasMore && (
+        <Pressable
+          style={styles.moreButton}
+          onPress={loadMore}
+          accessibilityRole="button"
+          accessibilityLabel={t('repo.loadMoreReleases')}
+          accessibilityState={{ busy: loadingMore }}>
+          {loadingMore ? (
+            <ActivityIndicator color={colors.text} />
+          ) : (
+            <Text style={styles.moreText}>{t('repo.loadMoreReleases')}</Text>
+          )}
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      gap: 12,
+    },
+    releaseCard: {
+      borderWidth: 1,
+      borderColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      gap: 8,
+    },
+    releaseHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    releaseName: {
+      flex: 1,
+      color: colors.text,
+      fontSize: 18,
+      fontWeight: 'bold',
+    },
+    badge: {
+      color: colors.release,
+      fontSize: 12,
+      borderWidth: 1,
+      borderColor: colors.release,
+      borderRadius: 10,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+    },
+    meta: {
+      color: colors.textMuted,
+      fontSize: 12,
+    },
+    moreButton: {
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      padding: 12,
+      borderRadius: 12,
+    },
+    moreText: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: 'bold',
+    },
+  });
@@ -0,0 +1,105 @@
+import { useEffect, useRef, type ReactNode } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { router, type Href } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { moveAccessibilityFocus } from '@/lib/accessibilityFocus';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface ScreenHeaderProps {
+  title: string;
+  subtitle?: string;
+  // Where to go when the screen was opened from a cold deep link and has no
+  // history to return to. Without it there is no back button.
+  fallback?: Href;
+  // Buttons rendered at the end of the header.
+  actions?: ReactNode;
+  // Moves screen reader focus to the title once mounted, so opening the
+  // screen announces it.
+  autoFocus?: boolean;
+}
+
+export function ScreenHeader({
+  title,
+  subtitle,
+  fallback,
+  actions,
+  autoFocus = false,
+}: ScreenHeaderProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, rtl } = useLocale();
+  const titleRef = useRef<Text>(null);
+
+  useEffect(() => {
+    if (autoFocus) moveAccessibilityFocus(titleRef.current);
+  }, [autoFocus]);
+
+  const goBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else if (fallback) {
+      router.replace(fallback);
+    }
+  };
+
+  return (
+    <View style={styles.header}>
+      {fallback ? (
+        <Pressable
+          onPress={goBack}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('a11y.back')}>
+          <Ionicons
+            name={rtl ? 'arrow-forward' : 'arrow-back'}
+            size={24}
+            color={colors.text}
+          />
+        </Pressable>
+      ) : (
+        <View style={styles.spacer} />
+      )}
+      <View style={styles.headerText}>
+        {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+        <Text
+          ref={titleRef}
+          style={styles.title}
+          numberOfLines={2}
+          accessibilityRole="header">
+          {title}
+        </Text>
+      </View>
+      {actions}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 12,
+    },
+    backButton: {
+      padding: 8,
+      marginEnd: 8,
+    },
+    spacer: {
+      width: 8,
+    },
+    headerText: {
+      flex: 1,
+    },
+    subtitle: {
+      fontSize: 14,
+      color: colors.textMuted,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+  });
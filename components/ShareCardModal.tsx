@@ -0,0 +1,210 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  Pressable,
+  Platform,
+  ScrollView,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { SvgXml } from 'react-native-svg';
+import { Ionicons } from '@expo/vector-icons';
+import { Chip } from '@/components/Chip';
+import { exportCard, type CardFormat } from '@/lib/cardExport';
+import {
+  CARD_TEMPLATES,
+  loadAvatarDataUri,
+  renderCard,
+  type CardData,
+  type CardTemplate,
+} from '@/lib/shareCard';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface ShareCardModalProps {
+  visible: boolean;
+  onClose: () => void;
+  data: Omit<CardData, 'avatar'>;
+  avatarUrl: string;
+}
+
+const FORMATS: CardFormat[] = ['png', 'svg'];
+
+export function ShareCardModal({
+  visible,
+  onClose,
+  data,
+  avatarUrl,
+}: ShareCardModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const { width } = useWindowDimensions();
+  const preview = useRef<View>(null);
+  const [template, setTemplate] = useState<CardTemplate>('landscape');
+  const [avatar, setAvatar] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<CardFormat | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (visible) loadAvatarDataUri(avatarUrl).then(setAvatar);
+  }, [visible, avatarUrl]);
+
+  const card = useMemo(
+    () => renderCard({ ...data, avatar }, template, colors),
+    [data, avatar, template, colors]
+  );
+  const previewWidth = Math.min(width - 32, 600);
+
+  const share = async (format: CardFormat) => {
+    setExporting(format);
+    setFailed(false);
+    try {
+      await exportCard(card, format, preview, `${data.login}-github-card`);
+    } catch {
+      setFailed(true);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title} accessibilityRole="header">
+            {t('shareCard.title')}
+          </Text>
+          <Pressable
+            onPress={onClose}
+            style={styles.closeButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('a11y.close')}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.chipRow}>
+            {CARD_TEMPLATES.map((option) => (
+              <Chip
+                key={option.value}
+                label={t(option.label)}
+                active={template === option.value}
+                onPress={() => setTemplate(option.value)}
+              />
+            ))}
+          </View>
+
+          <View ref={preview} collapsable={false}>
+            <SvgXml
+              xml={card.svg}
+              width={previewWidth}
+              height={(previewWidth * card.height) / card.width}
+            />
+          </View>
+
+          {failed && (
+            <Text style={styles.errorText}>{t('shareCard.failed')}</Text>
+          )}
+          <View style={styles.buttons}>
+            {FORMATS.map((format) => (
+              <Pressable
+                key={format}
+                style={styles.button}
+                onPress={() => share(format)}
+                disabled={!!exporting}
+                accessibilityRole="button"
+                accessibilityState={{
+                  disabled: !!exporting,
+                  busy: exporting === format,
+                }}>
+                {exporting === format ? (
+                  <ActivityIndicator color={colors.onPrimary} />
+                ) : (
+                  <>
+                    <Ionicons
+                      name={
+                        Platform.OS === 'web'
+                          ? 'download-outline'
+                          : 'share-outline'
+                      }
+                      size={20}
+                      color={colors.onPrimary}
+                    />
+                    <Text style={styles.buttonText}>
+                      {format.toUpperCase()}
+                    </Text>
+                  </>
+                )}
+              </Pressable>
+            ))}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 16,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    closeButton: {
+      padding: 8,
+    },
+    content: {
+      padding: 16,
+      gap: 16,
+      alignItems: 'center',
+    },
+    chipRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    errorText: {
+      color: colors.danger,
+      fontSize: 14,
+    },
+    buttons: {
+      flexDirection: 'row',
+      gap: 12,
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      minWidth: 120,
+      backgroundColor: colors.primary,
+      paddingVertical: 12,
+      paddingHorizontal: 20,
+      borderRadius: 8,
+    },
+    buttonText: {
+      color: colors.onPrimary,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+  });
@@ -0,0 +1,37 @@
+import { useState } from 'react';
+import { View } from 'react-native';
+import Svg, { Path } from 'react-native-svg';
+import { useTheme } from '@/context/ThemeContext';
+
+interface SparklineProps {
+  values: number[];
+  height?: number;
+  color?: string;
+}
+
+export function Sparkline({ values, height = 48, color }: SparklineProps) {
+  const { colors } = useTheme();
+  const [width, setWidth] = useState(0);
+  const stroke = color ?? colors.success;
+  const max = Math.max(...values, 1);
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  const points = values.map(
+    (value, index) =>
+      `${index * step},${height - 2 - (value / max) * (height - 4)}`
+  );
+  const line = points.length ? `M${points.join(' L')}` : '';
+  const area = line ? `${line} L${width},${height} L0,${height} Z` : '';
+
+  return (
+    <View
+      style={{ height }}
+      onLayout={(event) => setWidth(event.nativeEvent.layout.width)}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Path d={area} fill={stroke} fillOpacity={0.15} />
+          <Path d={line} stroke={stroke} strokeWidth={2} fill="none" />
+        </Svg>
+      )}
+    </View>
+  );
+}
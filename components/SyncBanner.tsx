@@ -0,0 +1,56 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { STALE_AFTER_MS } from '@/hooks/useCachedQuery';
+import { useIsOffline } from '@/hooks/useIsOffline';
+import { formatDate } from '@/lib/format';
+import type { ThemeColors } from '@/constants/theme';
+import { useLocale } from '@/context/LocaleContext';
+import { useTheme, useThemedStyles } from '@/context/ThemeContext';
+
+interface SyncBannerProps {
+  syncedAt: number | null;
+  failed?: boolean;
+}
+
+export function SyncBanner({ syncedAt, failed = false }: SyncBannerProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useLocale();
+  const offline = useIsOffline();
+  const stale = syncedAt !== null && Date.now() - syncedAt > STALE_AFTER_MS;
+
+  if (!syncedAt || !(offline || stale || failed)) {
+    return null;
+  }
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons
+        name={offline ? 'cloud-offline' : 'time'}
+        size={16}
+        color={colors.star}
+      />
+      <Text style={styles.text}>
+        {t(offline ? 'sync.offlineLastSynced' : 'sync.lastSynced', {
+          time: formatDate(syncedAt),
+        })}
+      </Text>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    banner: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      gap: 8,
+    },
+    text: {
+      color: colors.star,
+      fontSize: 14,
+    },
+  });
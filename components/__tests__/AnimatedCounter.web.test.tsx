@@ -0,0 +1,54 @@
+import { act, render, screen } from '@testing-library/react-native';
+import { useReducedMotion } from 'react-native-reanimated';
+import { AnimatedCounter } from '@/components/AnimatedCounter.web';
+
+jest.mock('react-native-reanimated', () => ({
+  useReducedMotion: jest.fn(() => false),
+}));
+
+// The counter is hidden from screen readers, and so from default queries.
+const shownNumber = () =>
+  Number(
+    screen.getByText(/^\d+$/, { includeHiddenElements: true }).props.children
+  );
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.mocked(useReducedMotion).mockReturnValue(false);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('AnimatedCounter (web)', () => {
+  it('counts up from zero on first render', () => {
+    render(<AnimatedCounter value={1200} />);
+    expect(shownNumber()).toBe(0);
+
+    act(() => jest.advanceTimersByTime(500));
+    const midway = shownNumber();
+    expect(midway).toBeGreaterThan(0);
+    expect(midway).toBeLessThan(1200);
+
+    act(() => jest.advanceTimersByTime(600));
+    expect(shownNumber()).toBe(1200);
+  });
+
+  it('eases from the shown number to a new value', () => {
+    const { rerender } = render(<AnimatedCounter value={10} />);
+    act(() => jest.advanceTimersByTime(1100));
+
+    rerender(<AnimatedCounter value={20} />);
+    expect(shownNumber()).toBe(10);
+
+    act(() => jest.advanceTimersByTime(500));
+    expect(shownNumber()).toBe(20);
+  });
+
+  it('shows the value at once with reduce motion on', () => {
+    jest.mocked(useReducedMotion).mockReturnValue(true);
+    render(<AnimatedCounter value={42} />);
+    expect(shownNumber()).toBe(42);
+  });
+});
@@ -0,0 +1,96 @@
+import { Linking } from 'react-native';
+import { fireEvent, screen } from '@testing-library/react-native';
+import { Markdown } from '@/components/Markdown';
+import { renderWithProviders } from '@/test/render';
+
+const source = {
+  owner: 'octocat',
+  name: 'hello-world',
+  branch: 'main',
+  path: 'docs/README.md',
+};
+
+const renderMarkdown = (content: string) =>
+  renderWithProviders(<Markdown content={content} source={source} />);
+
+// Linking is already a mock under jest-expo, so its calls need clearing.
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('Markdown', () => {
+  it('renders headings and inline styles', async () => {
+    const { toJSON } = await renderMarkdown(
+      '# Title\n\n## Section\n\nSome **bold**, _emphasis_ and `code`.'
+    );
+    expect(toJSON()).toMatchSnapshot();
+  });
+
+  it('renders ordered, unordered and task lists', async () => {
+    const { toJSON } = await renderMarkdown(
+      '- one\n- two\n  - nested\n\n' +
+        '1. first\n2. second\n\n' +
+        '- [x] done\n- [ ] todo'
+    );
+    expect(toJSON()).toMatchSnapshot();
+  });
+
+  it('highlights fenced code blocks', async () => {
+    const { toJSON } = await renderMarkdown(
+      '```ts\nconst answer: number = 42; // comment\n```'
+    );
+    expect(toJSON()).toMatchSnapshot();
+  });
+
+  it('renders tables', async () => {
+    const { toJSON } = await renderMarkdown(
+      '| Name | Stars |\n| --- | ---: |\n| hello | 42 |\n| world | 7 |'
+    );
+    expect(toJSON()).toMatchSnapshot();
+  });
+
+  it('resolves relative links and images against the repo', async () => {
+    const { toJSON } = await renderMarkdown(
+      'See [the guide](guide.md) and [the root](/LICENSE).\n\n' +
+        '![Logo](images/logo.png)'
+    );
+    expect(toJSON()).toMatchSnapshot();
+    expect(screen.getByLabelText('Logo').props.source).toEqual({
+      uri:
+        'https://raw.githubusercontent.com/octocat/hello-world/main/' +
+        'docs/images/logo.png',
+    });
+
+    const openURL = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    fireEvent.press(screen.getByText('the guide'));
+    expect(openURL).toHaveBeenCalledWith(
+      'https://github.com/octocat/hello-world/blob/main/docs/guide.md'
+    );
+  });
+
+  it('reduces raw HTML to text and images', async () => {
+    const { toJSON } = await renderMarkdown(
+      '<p align="center"><img src="logo.png" alt="Logo"></p>\n\n' +
+        '<div>Hello <b>world</b><script>alert(1)</script></div>'
+    );
+    expect(toJSON()).toMatchSnapshot();
+    expect(screen.queryByText(/alert/)).toBeNull();
+    expect(screen.getByText('Hello world')).toBeTruthy();
+  });
+
+  it('replaces numeric entities beyond the last code point', async () => {
+    const { toJSON } = await renderMarkdown(
+      'Hello &#1114112; world &#x110000; &#x1F600;'
+    );
+    expect(toJSON()).toMatchSnapshot();
+    expect(screen.getByText('Hello \uFFFD world \uFFFD 😀')).toBeTruthy();
+  });
+
+  it('shows links with unsafe schemes as plain text', async () => {
+    const openURL = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    await renderMarkdown('[click me](javascript:alert(1))');
+
+    fireEvent.press(screen.getByText('click me'));
+    expect(openURL).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,153 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, fireEvent, screen } from '@testing-library/react-native';
+import { RepoDetails } from '@/components/RepoDetails';
+import {
+  NotFoundError,
+  getCommitActivity,
+  getCommitsPage,
+  getReadme,
+  getReleasesPage,
+  getRepo,
+  getRepoLanguages,
+} from '@/lib/github';
+import { repoFixture } from '@/test/fixtures';
+import { renderWithProviders } from '@/test/render';
+
+jest.mock('@/lib/github', () => ({
+  ...jest.requireActual('@/lib/github'),
+  getRepo: jest.fn(),
+  getReadme: jest.fn(),
+  getRepoLanguages: jest.fn(),
+  getCommitActivity: jest.fn(),
+  getCommitsPage: jest.fn(),
+  getReleasesPage: jest.fn(),
+}));
+
+const renderDetails = () =>
+  renderWithProviders(<RepoDetails owner="octocat" name="hello-world" />);
+
+// Switching tabs mounts a list that fetches; let it settle.
+const openTab = async (name: string) => {
+  fireEvent.press(screen.getByRole('tab', { name }));
+  await act(async () => {});
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(getRepo).mockResolvedValue(repoFixture());
+  jest
+    .mocked(getReadme)
+    .mockRejectedValue(new NotFoundError('/repos/octocat/hello-world/readme'));
+  jest.mocked(getRepoLanguages).mockResolvedValue({ TypeScript: 1000 });
+  jest.mocked(getCommitActivity).mockResolvedValue([]);
+  jest.mocked(getCommitsPage).mockResolvedValue({
+    items: [
+      {
+        sha: '7fd1a60b01f91b314f59955a4e4d4e80d8edf11d',
+        html_url: 'https://github.com/octocat/hello-world/commit/7fd1a60',
+        commit: {
+          message: 'Merge pull request #6\n\nFix the readme',
+          author: { name: 'The Octocat', date: '2024-06-01T10:00:00Z' },
+        },
+        author: null,
+      },
+    ],
+    next: null,
+  });
+  jest.mocked(getReleasesPage).mockResolvedValue({
+    items: [
+      {
+        id: 1,
+        name: null,
+        tag_name: 'v1.0.0',
+        body: null,
+        html_url: 'https://github.com/octocat/hello-world/releases/v1.0.0',
+        draft: false,
+        prerelease: false,
+        published_at: '2024-06-01T10:00:00Z',
+      },
+    ],
+    next: null,
+  });
+});
+
+describe('RepoDetails accessibility', () => {
+  it('announces the repository name as a heading', async () => {
+    await renderDetails();
+    expect(
+      screen.getByRole('header', { name: 'hello-world' })
+    ).toBeOnTheScreen();
+  });
+
+  it('labels the pin button and stats', async () => {
+    await renderDetails();
+    expect(screen.getByLabelText('Pin repository')).toHaveProp(
+      'accessibilityRole',
+      'button'
+    );
+    expect(screen.getByLabelText('1,200 Stars')).toBeOnTheScreen();
+    expect(screen.getByLabelText('340 Forks')).toBeOnTheScreen();
+    expect(
+      screen.getByRole('button', { name: '12 Issues' })
+    ).toBeOnTheScreen();
+  });
+
+  it('exposes the sections as tabs with their selected state', async () => {
+    await renderDetails();
+    expect(screen.getByRole('tab', { name: 'Overview' })).toHaveProp(
+      'accessibilityState',
+      { selected: true }
+    );
+
+    await openTab('Commits');
+
+    expect(screen.getByRole('tab', { name: 'Commits' })).toHaveProp(
+      'accessibilityState',
+      { selected: true }
+    );
+    expect(screen.getByRole('tab', { name: 'Overview' })).toHaveProp(
+      'accessibilityState',
+      { selected: false }
+    );
+  });
+
+  it('reads commit rows as links', async () => {
+    await renderDetails();
+    await openTab('Commits');
+
+    expect(
+      await screen.findByLabelText(
+        'Commit 7fd1a60 by The Octocat: Merge pull request #6'
+      )
+    ).toHaveProp('accessibilityRole', 'link');
+  });
+
+  it('exposes loading more commits as a button', async () => {
+    jest.mocked(getCommitsPage).mockResolvedValue({
+      items: [],
+      next: 'https://api.github.com/repos/octocat/hello-world/commits?page=2',
+    });
+    await renderDetails();
+    await openTab('Commits');
+
+    expect(
+      await screen.findByRole('button', { name: 'Load more commits' })
+    ).toBeOnTheScreen();
+  });
+
+  it('reads release headers as links', async () => {
+    await renderDetails();
+    await openTab('Releases');
+
+    expect(
+      await screen.findByLabelText('Release v1.0.0')
+    ).toHaveProp('accessibilityRole', 'link');
+  });
+
+  it('marks the GitHub button as an external link', async () => {
+    await renderDetails();
+    expect(
+      screen.getByRole('link', { name: 'View on GitHub' })
+    ).toHaveProp('accessibilityHint', 'Opens GitHub in the browser');
+  });
+});
@@ -0,0 +1,60 @@
+export type ColorScheme = 'light' | 'dark';
+
+export interface ThemeColors {
+  background: string;
+  surface: string;
+  border: string;
+  text: string;
+  textMuted: string;
+  textSubtle: string;
+  primary: string;
+  // Text and icons drawn on top of `primary`.
+  onPrimary: string;
+  link: string;
+  danger: string;
+  success: string;
+  star: string;
+  merged: string;
+  release: string;
+  codeBackground: string;
+  overlay: string;
+}
+
+export const themes: Record<ColorScheme, ThemeColors> = {
+  dark: {
+    background: '#1A202C',
+    surface: '#2D3748',
+    border: '#4A5568',
+    text: '#FFFFFF',
+    textMuted: '#A0AEC0',
+    textSubtle: '#718096',
+    primary: '#4299E1',
+    onPrimary: '#FFFFFF',
+    link: '#63B3ED',
+    danger: '#FC8181',
+    success: '#68D391',
+    star: '#F6E05E',
+    merged: '#B794F4',
+    release: '#F6AD55',
+    codeBackground: '#171923',
+    overlay: 'rgba(0, 0, 0, 0.5)',
+  },
+  light: {
+    background: '#F7FAFC',
+    surface: '#FFFFFF',
+    border: '#E2E8F0',
+    text: '#1A202C',
+    textMuted: '#4A5568',
+    textSubtle: '#718096',
+    primary: '#3182CE',
+    onPrimary: '#FFFFFF',
+    link: '#2B6CB0',
+    danger: '#E53E3E',
+    success: '#38A169',
+    star: '#D69E2E',
+    merged: '#805AD5',
+    release: '#DD6B20',
+    codeBackground: '#EDF2F7',
+    overlay: 'rgba(0, 0, 0, 0.3)',
+  },
+};
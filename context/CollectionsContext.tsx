@@ -0,0 +1,97 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createCollection,
+  deleteCollection,
+  EMPTY_SAVED_REPOS,
+  exportSavedRepos,
+  includesRepo,
+  mergeSavedRepos,
+  parseSavedRepos,
+  toggleInCollection,
+  togglePinned,
+  type SavedRepos,
+} from '@/lib/collections';
+
+const SAVED_REPOS_KEY = 'collections.savedRepos';
+
+interface CollectionsContextValue extends SavedRepos {
+  isPinned: (fullName: string) => boolean;
+  togglePinned: (fullName: string) => void;
+  createCollection: (name: string) => void;
+  deleteCollection: (id: string) => void;
+  toggleInCollection: (id: string, fullName: string) => void;
+  exportJson: () => string;
+  // Throws `InvalidImportError` if the text isn't an export.
+  importJson: (json: string) => void;
+}
+
+const CollectionsContext = createContext<CollectionsContextValue | null>(
+  null
+);
+
+export function CollectionsProvider({ children }: { children: ReactNode }) {
+  const [saved, setSaved] = useState<SavedRepos>(EMPTY_SAVED_REPOS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    AsyncStorage.getItem(SAVED_REPOS_KEY)
+      .then((stored) => {
+        if (stored) setSaved(parseSavedRepos(stored));
+      })
+      .catch(() => undefined)
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Wait for the stored copy before writing, or the empty initial state
+  // would overwrite it.
+  useEffect(() => {
+    if (loaded) {
+      AsyncStorage.setItem(SAVED_REPOS_KEY, exportSavedRepos(saved)).catch(
+        () => undefined
+      );
+    }
+  }, [saved, loaded]);
+
+  const value = useMemo(
+    () => ({
+      ...saved,
+      isPinned: (fullName: string) => includesRepo(saved.pinned, fullName),
+      togglePinned: (fullName: string) =>
+        setSaved((current) => togglePinned(current, fullName)),
+      createCollection: (name: string) =>
+        setSaved((current) => createCollection(current, name)),
+      deleteCollection: (id: string) =>
+        setSaved((current) => deleteCollection(current, id)),
+      toggleInCollection: (id: string, fullName: string) =>
+        setSaved((current) => toggleInCollection(current, id, fullName)),
+      exportJson: () => exportSavedRepos(saved),
+      importJson: (json: string) => {
+        const incoming = parseSavedRepos(json);
+        setSaved((current) => mergeSavedRepos(current, incoming));
+      },
+    }),
+    [saved]
+  );
+
+  return (
+    <CollectionsContext.Provider value={value}>
+      {children}
+    </CollectionsContext.Provider>
+  );
+}
+
+export function useCollections() {
+  const context = useContext(CollectionsContext);
+  if (!context) {
+    throw new Error('useCollections must be used within a CollectionsProvider');
+  }
+  return context;
+}
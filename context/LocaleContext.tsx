@@ -0,0 +1,82 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  detectLanguage,
+  isRTL,
+  setLanguage,
+  t,
+  type Language,
+  type Translate,
+} from '@/lib/i18n';
+import { applyLayoutDirection } from '@/lib/layoutDirection';
+
+const LANGUAGE_KEY = 'settings.language';
+
+export type LanguagePreference = Language | 'system';
+
+interface LocaleContextValue {
+  preference: LanguagePreference;
+  language: Language;
+  rtl: boolean;
+  // Native layout direction only flips after the app restarts.
+  restartRequired: boolean;
+  t: Translate;
+  setPreference: (preference: LanguagePreference) => Promise<void>;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const [preference, setPreferenceState] =
+    useState<LanguagePreference>('system');
+  const [restartRequired, setRestartRequired] = useState(false);
+
+  useEffect(() => {
+    AsyncStorage.getItem(LANGUAGE_KEY)
+      .then((stored) => {
+        if (stored === 'en' || stored === 'he' || stored === 'system') {
+          setPreferenceState(stored);
+        }
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const setPreference = useCallback(async (next: LanguagePreference) => {
+    setPreferenceState(next);
+    await AsyncStorage.setItem(LANGUAGE_KEY, next);
+  }, []);
+
+  const language = preference === 'system' ? detectLanguage() : preference;
+  const rtl = isRTL(language);
+
+  useEffect(() => {
+    setRestartRequired(applyLayoutDirection(rtl));
+  }, [rtl]);
+
+  const value = useMemo(() => {
+    // Screens render through `t`, so the shared instance has to switch
+    // before the new context value reaches them.
+    setLanguage(language);
+    return { preference, language, rtl, restartRequired, t, setPreference };
+  }, [preference, language, rtl, restartRequired, setPreference]);
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+}
+
+export function useLocale() {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
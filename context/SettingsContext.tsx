@@ -0,0 +1,102 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import { setAuthToken, validateToken } from '@/lib/github';
+import { clearToken, loadToken, saveToken } from '@/lib/tokenStorage';
+
+const USERNAME_KEY = 'settings.githubUsername';
+const TOKEN_LOGIN_KEY = 'settings.tokenLogin';
+
+export const DEFAULT_USERNAME: string =
+  Constants.expoConfig?.extra?.githubUsername ?? 'idanDayani';
+
+interface SettingsContextValue {
+  username: string;
+  tokenLogin: string | null;
+  ready: boolean;
+  setUsername: (username: string) => Promise<void>;
+  setToken: (token: string) => Promise<void>;
+  removeToken: () => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const [username, setUsernameState] = useState(DEFAULT_USERNAME);
+  const [tokenLogin, setTokenLogin] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    // Each load fails on its own, e.g. the token after an Android keystore
+    // reset, so the other still applies.
+    Promise.all([
+      AsyncStorage.getItem(USERNAME_KEY)
+        .then((stored) => {
+          if (stored) setUsernameState(stored);
+        })
+        .catch(() => undefined),
+      Promise.all([
+        AsyncStorage.getItem(TOKEN_LOGIN_KEY).catch(() => null),
+        loadToken().catch(() => null),
+      ]).then(([login, token]) => {
+        if (token) {
+          setAuthToken(token);
+          setTokenLogin(login);
+        }
+      }),
+    ]).then(() => setReady(true));
+  }, []);
+
+  const setUsername = useCallback(async (next: string) => {
+    const trimmed = next.trim() || DEFAULT_USERNAME;
+    setUsernameState(trimmed);
+    // If the write fails the new name still applies until the next launch.
+    await AsyncStorage.setItem(USERNAME_KEY, trimmed).catch(() => undefined);
+  }, []);
+
+  // Throws the client's error (e.g. UnauthorizedError) if GitHub rejects it.
+  const setToken = useCallback(async (token: string) => {
+    const trimmed = token.trim();
+    const user = await validateToken(trimmed);
+    await saveToken(trimmed);
+    await AsyncStorage.setItem(TOKEN_LOGIN_KEY, user.login);
+    setAuthToken(trimmed);
+    setTokenLogin(user.login);
+  }, []);
+
+  // Throws if the token couldn't be deleted; it then stays signed in rather
+  // than coming back on the next launch.
+  const removeToken = useCallback(async () => {
+    await clearToken();
+    await AsyncStorage.removeItem(TOKEN_LOGIN_KEY).catch(() => undefined);
+    setAuthToken(null);
+    setTokenLogin(null);
+  }, []);
+
+  const value = useMemo(
+    () => ({ username, tokenLogin, ready, setUsername, setToken, removeToken }),
+    [username, tokenLogin, ready, setUsername, setToken, removeToken]
+  );
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (!context) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
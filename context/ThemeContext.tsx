@@ -0,0 +1,84 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import { useColorScheme } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { themes, type ColorScheme, type ThemeColors } from '@/constants/theme';
+
+const THEME_MODE_KEY = 'settings.themeMode';
+
+export type ThemeMode = ColorScheme | 'system';
+
+interface ThemeContextValue {
+  mode: ThemeMode;
+  scheme: ColorScheme;
+  colors: ThemeColors;
+  setMode: (mode: ThemeMode) => Promise<void>;
+}
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const systemScheme = useColorScheme();
+  const [mode, setModeState] = useState<ThemeMode>('system');
+
+  useEffect(() => {
+    AsyncStorage.getItem(THEME_MODE_KEY)
+      .then((stored) => {
+        if (stored === 'light' || stored === 'dark' || stored === 'system') {
+          setModeState(stored);
+        }
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const setMode = useCallback(async (next: ThemeMode) => {
+    setModeState(next);
+    await AsyncStorage.setItem(THEME_MODE_KEY, next);
+  }, []);
+
+  const scheme: ColorScheme =
+    mode === 'system' ? (systemScheme === 'light' ? 'light' : 'dark') : mode;
+
+  const value = useMemo(
+    () => ({ mode, scheme, colors: themes[scheme], setMode }),
+    [mode, scheme, setMode]
+  );
+
+  return (
+    <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+  );
+}
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return context;
+}
+
+const styleCache = new WeakMap<object, Partial<Record<ColorScheme, unknown>>>();
+
+/**
+ * Builds a screen's styles from the active theme. `factory` should be a
+ * module-level function so the result can be cached per color scheme.
+ */
+export function useThemedStyles<T>(factory: (colors: ThemeColors) => T): T {
+  const { scheme, colors } = useTheme();
+
+  return useMemo(() => {
+    const cached = styleCache.get(factory) ?? {};
+    if (!cached[scheme]) {
+      cached[scheme] = factory(colors);
+      styleCache.set(factory, cached);
+    }
+    return cached[scheme] as T;
+  }, [factory, scheme, colors]);
+}
@@ -0,0 +1,96 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from 'react';
+import {
+  disableBackgroundRefresh,
+  enableBackgroundRefresh,
+  type EnableFailure,
+} from '@/lib/backgroundRefresh';
+import { sameRepo } from '@/lib/collections';
+import type { ChangeType, QuietHours } from '@/lib/repoChanges';
+import {
+  DEFAULT_WATCH_SETTINGS,
+  loadWatchSettings,
+  saveWatchSettings,
+  type WatchSettings,
+} from '@/lib/watchSettings';
+
+interface WatchContextValue extends WatchSettings {
+  // Resolves to why turning it on failed, or null.
+  setEnabled: (enabled: boolean) => Promise<EnableFailure | null>;
+  setQuietHours: (quietHours: QuietHours | null) => void;
+  typesFor: (repo: string) => ChangeType[];
+  toggleType: (repo: string, type: ChangeType) => void;
+}
+
+const WatchContext = createContext<WatchContextValue | null>(null);
+
+export function WatchProvider({ children }: { children: ReactNode }) {
+  const [settings, setSettings] = useState(DEFAULT_WATCH_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    loadWatchSettings()
+      .then(setSettings)
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (loaded) saveWatchSettings(settings).catch(() => undefined);
+  }, [settings, loaded]);
+
+  const setEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled) {
+      const failure = await enableBackgroundRefresh();
+      if (failure) return failure;
+    } else {
+      // Turned off in settings either way; the task then finds it disabled.
+      await disableBackgroundRefresh().catch(() => undefined);
+    }
+    setSettings((current) => ({ ...current, enabled }));
+    return null;
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      ...settings,
+      setEnabled,
+      setQuietHours: (quietHours: QuietHours | null) =>
+        setSettings((current) => ({ ...current, quietHours })),
+      typesFor: (repo: string) =>
+        settings.rules.find((rule) => sameRepo(rule.repo, repo))?.types ?? [],
+      toggleType: (repo: string, type: ChangeType) =>
+        setSettings((current) => {
+          const rule = current.rules.find((item) => sameRepo(item.repo, repo));
+          const types = rule?.types.includes(type)
+            ? rule.types.filter((item) => item !== type)
+            : [...(rule?.types ?? []), type];
+          const others = current.rules.filter((item) => item !== rule);
+          // A rule without change types watches nothing, so drop it.
+          return {
+            ...current,
+            rules: types.length ? [...others, { repo, types }] : others,
+          };
+        }),
+    }),
+    [settings, setEnabled]
+  );
+
+  return (
+    <WatchContext.Provider value={value}>{children}</WatchContext.Provider>
+  );
+}
+
+export function useWatch() {
+  const context = useContext(WatchContext);
+  if (!context) {
+    throw new Error('useWatch must be used within a WatchProvider');
+  }
+  return context;
+}
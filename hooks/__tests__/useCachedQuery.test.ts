@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import { readCache } from '@/lib/cache';
+
+// A promise the test settles by hand, to control response order.
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('useCachedQuery', () => {
+  it('shows the fetched data and persists it', async () => {
+    const { result } = renderHook(() =>
+      useCachedQuery('user:octocat', () => Promise.resolve('fresh'))
+    );
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.data).toBe('fresh');
+    expect((await readCache('user:octocat'))?.data).toBe('fresh');
+  });
+
+  it('shows initial data until the key is known', () => {
+    const fetcher = jest.fn(() => Promise.resolve('fresh'));
+    const { result } = renderHook(() =>
+      useCachedQuery<string>(null, fetcher, 'exported')
+    );
+
+    expect(result.current.data).toBe('exported');
+    expect(result.current.loading).toBe(false);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('replaces initial data with the fetched data', async () => {
+    const { result } = renderHook(() =>
+      useCachedQuery('user:octocat', () => Promise.resolve('fresh'), 'exported')
+    );
+
+    expect(result.current.data).toBe('exported');
+    await waitFor(() => expect(result.current.data).toBe('fresh'));
+  });
+
+  it('ignores a response that arrives after the key changed', async () => {
+    const stale = deferred<string>();
+    const fetcher = jest.fn((user: string) =>
+      user === 'a' ? stale.promise : Promise.resolve('from b')
+    );
+    const { result, rerender } = renderHook(
+      ({ user }: { user: string }) =>
+        useCachedQuery(`user:${user}`, () => fetcher(user)),
+      { initialProps: { user: 'a' } }
+    );
+    await waitFor(() => expect(fetcher).toHaveBeenCalledWith('a'));
+
+    rerender({ user: 'b' });
+    await waitFor(() => expect(result.current.data).toBe('from b'));
+
+    await act(async () => stale.resolve('from a'));
+    expect(result.current.data).toBe('from b');
+  });
+
+  it('ignores a failure that arrives after the key changed', async () => {
+    const stale = deferred<string>();
+    const fetcher = jest.fn((user: string) =>
+      user === 'a' ? stale.promise : Promise.resolve('from b')
+    );
+    const { result, rerender } = renderHook(
+      ({ user }: { user: string }) =>
+        useCachedQuery(`user:${user}`, () => fetcher(user)),
+      { initialProps: { user: 'a' } }
+    );
+    await waitFor(() => expect(fetcher).toHaveBeenCalledWith('a'));
+
+    rerender({ user: 'b' });
+    await waitFor(() => expect(result.current.data).toBe('from b'));
+
+    await act(async () => stale.reject(new Error('offline')));
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps the newest of overlapping requests for the same key', async () => {
+    const first = deferred<string>();
+    const fetcher = jest
+      .fn<Promise<string>, []>()
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValue('second');
+    const { result } = renderHook(() => useCachedQuery('user:a', fetcher));
+    await waitFor(() => expect(fetcher).toHaveBeenCalledTimes(1));
+
+    await act(() => result.current.refresh());
+    expect(result.current.data).toBe('second');
+
+    await act(async () => first.resolve('first'));
+    expect(result.current.data).toBe('second');
+  });
+});
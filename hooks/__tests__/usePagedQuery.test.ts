@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { usePagedQuery } from '@/hooks/usePagedQuery';
+import type { Page } from '@/lib/github';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+});
+
+describe('usePagedQuery', () => {
+  it('appends the next page', async () => {
+    const fetchPage = (next?: string | null): Promise<Page<string>> =>
+      Promise.resolve(
+        next ? { items: ['b'], next: null } : { items: ['a'], next: 'page-2' }
+      );
+    const { result } = renderHook(() => usePagedQuery('list', fetchPage));
+
+    await waitFor(() => expect(result.current.hasMore).toBe(true));
+    await act(() => result.current.loadMore());
+
+    expect(result.current.items).toEqual(['a', 'b']);
+    expect(result.current.hasMore).toBe(false);
+  });
+
+  it('drops a page that arrives after the key changed', async () => {
+    let resolveStale!: (page: Page<string>) => void;
+    const fetchPage = (list: string, next?: string | null) => {
+      if (list === 'a' && next) {
+        return new Promise<Page<string>>((resolve) => {
+          resolveStale = resolve;
+        });
+      }
+      return Promise.resolve({ items: [`first ${list}`], next: 'page-2' });
+    };
+    const { result, rerender } = renderHook(
+      ({ list }: { list: string }) =>
+        usePagedQuery(list, (next) => fetchPage(list, next)),
+      { initialProps: { list: 'a' } }
+    );
+
+    await waitFor(() => expect(result.current.hasMore).toBe(true));
+    let loading!: Promise<void>;
+    act(() => {
+      loading = result.current.loadMore();
+    });
+    rerender({ list: 'b' });
+    await waitFor(() => expect(result.current.items).toEqual(['first b']));
+    await act(async () => {
+      resolveStale({ items: ['second a'], next: null });
+      await loading;
+    });
+
+    expect(result.current.items).toEqual(['first b']);
+    expect(result.current.hasMore).toBe(true);
+  });
+
+  it('drops a page that arrives after a refresh replaced the list', async () => {
+    let firstPage = { items: ['a'], next: 'page-2' };
+    let resolveStale!: (page: Page<string>) => void;
+    const fetchPage = (next?: string | null): Promise<Page<string>> => {
+      if (next === 'page-2') {
+        return Promise.resolve({ items: ['b'], next: 'page-3' });
+      }
+      if (next === 'page-3') {
+        return new Promise((resolve) => {
+          resolveStale = resolve;
+        });
+      }
+      return Promise.resolve(firstPage);
+    };
+    const { result } = renderHook(() => usePagedQuery('list', fetchPage));
+
+    await waitFor(() => expect(result.current.hasMore).toBe(true));
+    await act(() => result.current.loadMore());
+    let loading!: Promise<void>;
+    act(() => {
+      loading = result.current.loadMore();
+    });
+    firstPage = { items: ['a2'], next: 'page-2' };
+    await act(() => result.current.refresh());
+    await act(async () => {
+      resolveStale({ items: ['c'], next: null });
+      await loading;
+    });
+
+    expect(result.current.items).toEqual(['a2']);
+    expect(result.current.hasMore).toBe(true);
+    const cached = await AsyncStorage.getItem('cache:list');
+    expect(JSON.parse(cached!).data.items).toEqual(['a2']);
+  });
+});
@@ -0,0 +1,26 @@
+import { useWindowDimensions } from 'react-native';
+
+export type Breakpoint = 'compact' | 'medium' | 'expanded';
+
+// Window widths, roughly a portrait tablet and a landscape tablet or desktop.
+const MEDIUM_WIDTH = 768;
+const EXPANDED_WIDTH = 1024;
+
+export const breakpointFor = (width: number): Breakpoint =>
+  width >= EXPANDED_WIDTH
+    ? 'expanded'
+    : width >= MEDIUM_WIDTH
+      ? 'medium'
+      : 'compact';
+
+/** Layout size class of the current window; updates on resize. */
+export function useBreakpoint() {
+  const { width } = useWindowDimensions();
+  const breakpoint = breakpointFor(width);
+  return {
+    breakpoint,
+    // Wide enough for side-by-side layouts.
+    wide: breakpoint !== 'compact',
+    expanded: breakpoint === 'expanded',
+  };
+}
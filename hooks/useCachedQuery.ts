@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { readCache, writeCache } from '@/lib/cache';
+
+// How old a snapshot may get before the screens flag it as stale.
+export const STALE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Stale-while-revalidate loader: shows the last persisted snapshot for `key`
+ * immediately, then fetches fresh data in the background and persists it.
+ * Pass a `null` key to hold off until the inputs are known. `initialData`
+ * is shown until then: exported web pages pass the data they were rendered
+ * with, so the browser hydrates the same markup before revalidating.
+ */
+export function useCachedQuery<T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  initialData: T | null = null
+) {
+  const [data, setData] = useState<T | null>(initialData);
+  const [syncedAt, setSyncedAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState(initialData === null);
+  const [error, setError] = useState<unknown>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const initialRef = useRef(initialData);
+  initialRef.current = initialData;
+  // Bumped per request and per key change; only the latest may set state,
+  // so a slow response for an old key can't replace the current one.
+  const latestRequest = useRef(0);
+
+  const revalidate = useCallback(async () => {
+    if (!key) return;
+    const request = ++latestRequest.current;
+    setError(null);
+    try {
+      const fresh = await fetcherRef.current();
+      const entry = await writeCache(key, fresh);
+      if (request !== latestRequest.current) return;
+      setData(fresh);
+      setSyncedAt(entry.syncedAt);
+    } catch (err) {
+      if (request === latestRequest.current) setError(err);
+    }
+  }, [key]);
+
+  useEffect(() => {
+    latestRequest.current += 1;
+    if (!key) return;
+    let cancelled = false;
+    setData(initialRef.current);
+    setSyncedAt(null);
+    setLoading(initialRef.current === null);
+
+    readCache<T>(key).then(async (cached) => {
+      if (cancelled) return;
+      if (cached) {
+        setData(cached.data);
+        setSyncedAt(cached.syncedAt);
+        setLoading(false);
+      }
+      await revalidate();
+      if (!cancelled) setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, revalidate]);
+
+  // User-initiated revalidation; keeps the current data on screen meanwhile.
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    await revalidate();
+    setRefreshing(false);
+  }, [revalidate]);
+
+  // Applies a local update (e.g. an appended page) and persists it.
+  const mutate = useCallback(
+    (updater: (current: T) => T) => {
+      setData((current) => {
+        if (current === null) return current;
+        const next = updater(current);
+        if (key && next !== current) writeCache(key, next);
+        return next;
+      });
+    },
+    [key]
+  );
+
+  return {
+    data,
+    syncedAt,
+    loading,
+    refreshing,
+    error,
+    revalidate,
+    refresh,
+    mutate,
+  };
+}
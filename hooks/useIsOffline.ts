@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+
+export function useIsOffline() {
+  const [offline, setOffline] = useState(false);
+
+  useEffect(
+    () =>
+      NetInfo.addEventListener((state) => {
+        setOffline(state.isConnected === false);
+      }),
+    []
+  );
+
+  return offline;
+}
@@ -0,0 +1,5 @@
+// Returns whether it handled the key, which then skips the browser default.
+export type KeyHandler = (key: string) => boolean;
+
+/** Listens for hardware keyboard presses. Web only; a no-op on native. */
+export function useKeyDown(_handler: KeyHandler, _enabled = true) {}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+
+// Returns whether it handled the key, which then skips the browser default.
+export type KeyHandler = (key: string) => boolean;
+
+// Keys typed into a field belong to the field.
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA');
+
+/** Listens for hardware keyboard presses anywhere in the document. */
+export function useKeyDown(handler: KeyHandler, enabled = true) {
+  // Kept in a ref so callers can pass an inline function.
+  const latest = useRef(handler);
+  latest.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey) return;
+      if (isEditable(event.target)) return;
+      if (latest.current(event.key)) event.preventDefault();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+}
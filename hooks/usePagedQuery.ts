@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCachedQuery } from '@/hooks/useCachedQuery';
+import type { Page } from '@/lib/github';
+
+/**
+ * `useCachedQuery` for paginated lists: the first page is cached and
+ * revalidated, `loadMore` appends the page behind its `next` link.
+ */
+export function usePagedQuery<T>(
+  key: string | null,
+  fetchPage: (next?: string | null) => Promise<Page<T>>,
+  initialData: Page<T> | null = null
+) {
+  const query = useCachedQuery<Page<T>>(key, () => fetchPage(), initialData);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Set when the last `loadMore` failed, so callers don't retry in a loop.
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false);
+  const { data, mutate } = query;
+  // Bumped per key change, so a page that arrives for the previous key is
+  // not appended to the current list.
+  const latestKey = useRef(0);
+
+  useEffect(() => {
+    latestKey.current += 1;
+    setLoadMoreFailed(false);
+  }, [key]);
+
+  const loadMore = useCallback(async () => {
+    if (!data?.next || loadingMore) return;
+    const request = latestKey.current;
+    const from = data.next;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(from);
+      if (request !== latestKey.current) return;
+      // A refresh that landed meanwhile replaced the list; appending to it
+      // would skip the pages in between.
+      mutate((current) =>
+        current.next === from
+          ? { items: [...current.items, ...page.items], next: page.next }
+          : current
+      );
+      setLoadMoreFailed(false);
+    } catch {
+      // Keep what we already have; the next attempt retries.
+      if (request === latestKey.current) setLoadMoreFailed(true);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [data, loadingMore, fetchPage, mutate]);
+
+  return {
+    ...query,
+    items: data?.items ?? null,
+    hasMore: !!data?.next,
+    loadingMore,
+    loadMoreFailed,
+    loadMore,
+  };
+}
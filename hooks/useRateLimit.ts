@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getRateLimit, subscribeRateLimit } from '@/lib/github';
+
+export function useRateLimit() {
+  return useSyncExternalStore(subscribeRateLimit, getRateLimit, getRateLimit);
+}
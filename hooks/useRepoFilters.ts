@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { router, useLocalSearchParams } from 'expo-router';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  filtersFromParams,
+  filtersToParams,
+  hasFilterParams,
+  type RepoFilterParams,
+  type RepoFilters,
+} from '@/lib/repoFilters';
+
+const FILTERS_KEY = 'settings.repoFilters';
+
+/**
+ * Repo filters backed by the route query params, so filtered views can be
+ * deep-linked. The last used filters are persisted and restored when the
+ * screen is opened without any params.
+ */
+export function useRepoFilters() {
+  const params = useLocalSearchParams<RepoFilterParams>();
+  const { q, lang, topic, sort, hideForks, hideArchived, type } = params;
+  const filters = useMemo(
+    () =>
+      filtersFromParams({
+        q,
+        lang,
+        topic,
+        sort,
+        hideForks,
+        hideArchived,
+        type,
+      }),
+    [q, lang, topic, sort, hideForks, hideArchived, type]
+  );
+  // Only the params the screen was opened with decide whether to restore.
+  const openedWithoutParams = useRef(!hasFilterParams(params));
+
+  useEffect(() => {
+    if (!openedWithoutParams.current) return;
+    AsyncStorage.getItem(FILTERS_KEY)
+      .then((stored) => {
+        if (stored) router.setParams(JSON.parse(stored));
+      })
+      .catch(() => undefined);
+  }, []);
+
+  const setFilters = useCallback(
+    (changes: Partial<RepoFilters>) => {
+      const next = filtersToParams({ ...filters, ...changes });
+      router.setParams(next);
+      AsyncStorage.setItem(FILTERS_KEY, JSON.stringify(next)).catch(
+        () => undefined
+      );
+    },
+    [filters]
+  );
+
+  return [filters, setFilters] as const;
+}
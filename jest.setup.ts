@@ -0,0 +1,57 @@
+import '@testing-library/react-native/extend-expect';
+
+// In-memory AsyncStorage; suites that read it clear it between tests.
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Tests run in English, whatever the machine's locale.
+jest.mock('expo-localization', () => ({
+  getLocales: () => [{ languageCode: 'en', languageTag: 'en-US' }],
+}));
+
+jest.mock('@react-native-community/netinfo', () =>
+  require('@react-native-community/netinfo/jest/netinfo-mock')
+);
+
+// Reduced motion makes animated counters render their final value at once.
+jest.mock('react-native-reanimated', () => ({
+  ...require('react-native-reanimated/mock'),
+  useReducedMotion: () => true,
+}));
+
+jest.mock('react-native-safe-area-context', () =>
+  require('react-native-safe-area-context/jest/mock').default
+);
+
+// Screens are rendered on their own, outside a navigator.
+jest.mock('expo-router', () => ({
+  router: {
+    push: jest.fn(),
+    replace: jest.fn(),
+    back: jest.fn(),
+    canGoBack: () => true,
+  },
+  Link: ({ children }: { children: unknown }) => children,
+  useLocalSearchParams: jest.fn(() => ({})),
+}));
+
+// Without a navigator, a screen counts as the focused one.
+jest.mock('@react-navigation/native', () => ({
+  ...jest.requireActual('@react-navigation/native'),
+  useIsFocused: () => true,
+}));
+
+jest.mock('expo-router/head', () => () => null);
+
+// The native font loader mock reports no loaded fonts as undefined.
+jest.mock('expo-font', () => ({
+  ...jest.requireActual('expo-font'),
+  isLoaded: () => true,
+  loadAsync: jest.fn(() => Promise.resolve()),
+}));
+
+// Background fetch and notifications need a device; use the no-op variant.
+jest.mock('@/lib/backgroundRefresh', () =>
+  require('@/lib/backgroundRefresh.web')
+);
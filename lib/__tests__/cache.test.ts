@@ -0,0 +1,87 @@
+import type AsyncStorageType from '@react-native-async-storage/async-storage';
+
+// The recency index lives in module state, so each test loads a fresh copy
+// of the cache together with the storage it writes to.
+let cache: typeof import('@/lib/cache');
+let AsyncStorage: typeof AsyncStorageType;
+
+beforeEach(async () => {
+  jest.isolateModules(() => {
+    cache = require('@/lib/cache');
+    AsyncStorage = require('@react-native-async-storage/async-storage');
+  });
+  await AsyncStorage.clear();
+});
+
+// Ten of these fill the cache.
+const tenth = () => 'x'.repeat(cache.MAX_CACHE_BYTES / 10 - 100);
+
+const fill = async (count: number, from = 0) => {
+  for (let i = from; i < from + count; i++) {
+    await cache.writeCache(`key${i}`, tenth());
+  }
+};
+
+describe('cache', () => {
+  it('reads back what was written', async () => {
+    const entry = await cache.writeCache('user:octocat', { login: 'octocat' });
+    expect(await cache.readCache('user:octocat')).toEqual(entry);
+    expect(await cache.readCache('user:missing')).toBeNull();
+  });
+
+  it('evicts the least recently written entries beyond the budget', async () => {
+    await fill(12);
+
+    expect(await cache.readCache('key0')).toBeNull();
+    expect(await cache.readCache('key1')).toBeNull();
+    expect(await cache.readCache('key2')).not.toBeNull();
+    const keys = await AsyncStorage.getAllKeys();
+    expect(keys.filter((key) => key.startsWith('cache:'))).toHaveLength(10);
+  });
+
+  it('counts entries by size, not by number', async () => {
+    await fill(1);
+    for (let i = 0; i < 500; i++) {
+      await cache.writeCache(`small${i}`, i);
+    }
+
+    expect(await cache.readCache('key0')).not.toBeNull();
+    await cache.writeCache('large', 'x'.repeat(cache.MAX_CACHE_BYTES * 0.95));
+    expect(await cache.readCache('key0')).toBeNull();
+    expect(await cache.readCache('large')).not.toBeNull();
+  });
+
+  it('does not keep an entry larger than the whole budget', async () => {
+    await fill(1);
+    await cache.writeCache('huge', 'x'.repeat(cache.MAX_CACHE_BYTES + 1));
+
+    expect(await cache.readCache('huge')).toBeNull();
+    expect(await cache.readCache('key0')).toBeNull();
+  });
+
+  it('keeps entries that were read recently', async () => {
+    await fill(10);
+    await cache.readCache('key0');
+    await fill(1, 10);
+
+    expect(await cache.readCache('key0')).not.toBeNull();
+    expect(await cache.readCache('key1')).toBeNull();
+  });
+
+  it('rewriting an entry does not count it twice', async () => {
+    await fill(10);
+    await cache.writeCache('key0', tenth());
+
+    expect(await cache.readCache('key1')).not.toBeNull();
+  });
+
+  it('indexes entries stored before the index existed', async () => {
+    await AsyncStorage.setItem(
+      'cache:legacy',
+      JSON.stringify({ data: 1, etag: null, syncedAt: 0 })
+    );
+    await fill(11);
+
+    expect(await AsyncStorage.getItem('cache:legacy')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  EMPTY_SAVED_REPOS,
+  InvalidImportError,
+  createCollection,
+  exportSavedRepos,
+  parseSavedRepos,
+  togglePinned,
+} from '@/lib/collections';
+
+const exported = (value: unknown) => JSON.stringify(value);
+
+describe('parseSavedRepos', () => {
+  it('reads back an export', () => {
+    const saved = createCollection(
+      togglePinned(EMPTY_SAVED_REPOS, 'octocat/hello-world'),
+      'Favourites'
+    );
+    expect(parseSavedRepos(exportSavedRepos(saved))).toEqual(saved);
+  });
+
+  it('trims names and gives collections without an id a new one', () => {
+    const { collections } = parseSavedRepos(
+      exported({
+        version: 1,
+        pinned: [],
+        collections: [{ name: ' Tools ', repos: ['expo/expo'] }],
+      })
+    );
+    expect(collections).toEqual([
+      { id: expect.any(String), name: 'Tools', repos: ['expo/expo'] },
+    ]);
+  });
+
+  it.each([
+    ['text that is not JSON', 'not json', 'Not valid JSON'],
+    ['a bare array', exported([]), 'Unsupported export version'],
+    ['null', exported(null), 'Unsupported export version'],
+    [
+      'another version',
+      exported({ version: 2, pinned: [], collections: [] }),
+      'Unsupported export version',
+    ],
+    [
+      'pinned entries that are not repos',
+      exported({ version: 1, pinned: ['octocat'], collections: [] }),
+      'Missing pinned repos or collections',
+    ],
+    [
+      'collections that are not a list',
+      exported({ version: 1, pinned: [], collections: {} }),
+      'Missing pinned repos or collections',
+    ],
+    [
+      'a collection that is not an object',
+      exported({ version: 1, pinned: [], collections: ['Tools'] }),
+      'Malformed collection',
+    ],
+    [
+      'a collection with a blank name',
+      exported({
+        version: 1,
+        pinned: [],
+        collections: [{ name: '  ', repos: [] }],
+      }),
+      'Malformed collection',
+    ],
+  ])('rejects %s', (_, json, message) => {
+    expect(() => parseSavedRepos(json)).toThrow(
+      new InvalidImportError(message)
+    );
+  });
+});
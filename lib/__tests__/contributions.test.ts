@@ -0,0 +1,161 @@
+import {
+  buildCalendar,
+  computeStreaks,
+  countEvents,
+  dayKey,
+  totalContributions,
+  type DailyCounts,
+} from '@/lib/contributions';
+import type { GitHubEvent } from '@/lib/github';
+
+// Wednesday, June 12 2024, in local time like the calendar itself.
+const TODAY = new Date(2024, 5, 12, 15, 30);
+
+const event = (
+  type: string,
+  payload: GitHubEvent['payload'],
+  createdAt = TODAY
+): GitHubEvent => ({
+  id: `${type}-${createdAt.getTime()}`,
+  type,
+  actor: { login: 'octocat', avatar_url: '' },
+  repo: { id: 1, name: 'octocat/hello-world' },
+  payload,
+  created_at: createdAt.toISOString(),
+});
+
+// Counts for the days before today, ending with yesterday.
+const daysBefore = (...counts: number[]): DailyCounts =>
+  Object.fromEntries(
+    counts.map((count, index) => [
+      dayKey(new Date(2024, 5, 12 - (counts.length - index))),
+      count,
+    ])
+  );
+
+describe('countEvents', () => {
+  it('weighs pushes by their distinct commits', () => {
+    expect(
+      countEvents([
+        event('PushEvent', { distinct_size: 3, size: 5 }),
+        event('PushEvent', { size: 2 }),
+        // A force push without new commits still counts once.
+        event('PushEvent', { distinct_size: 0 }),
+      ])
+    ).toEqual({ '2024-06-12': 6 });
+  });
+
+  it('only counts opened issues and pull requests', () => {
+    expect(
+      countEvents([
+        event('IssuesEvent', { action: 'opened' }),
+        event('IssuesEvent', { action: 'closed' }),
+        event('PullRequestEvent', { action: 'opened' }),
+        event('PullRequestReviewEvent', {}),
+      ])
+    ).toEqual({ '2024-06-12': 3 });
+  });
+
+  it('counts new repositories but not branches, and skips other events', () => {
+    expect(
+      countEvents([
+        event('CreateEvent', { ref_type: 'repository' }),
+        event('CreateEvent', { ref_type: 'branch' }),
+        event('WatchEvent', { action: 'started' }),
+      ])
+    ).toEqual({ '2024-06-12': 1 });
+  });
+
+  it('groups events by local day', () => {
+    const yesterday = new Date(2024, 5, 11, 23, 59);
+    expect(
+      countEvents([
+        event('PullRequestReviewEvent', {}),
+        event('PullRequestReviewEvent', {}, yesterday),
+      ])
+    ).toEqual({ '2024-06-11': 1, '2024-06-12': 1 });
+  });
+});
+
+describe('buildCalendar', () => {
+  it('ends with a partial week that stops at today', () => {
+    const calendar = buildCalendar({}, 2, TODAY);
+    expect(calendar).toHaveLength(2);
+    expect(calendar[0].map((day) => day.date)).toEqual([
+      '2024-06-02',
+      '2024-06-03',
+      '2024-06-04',
+      '2024-06-05',
+      '2024-06-06',
+      '2024-06-07',
+      '2024-06-08',
+    ]);
+    expect(calendar[1].map((day) => day.date)).toEqual([
+      '2024-06-09',
+      '2024-06-10',
+      '2024-06-11',
+      '2024-06-12',
+    ]);
+  });
+
+  it('puts every day at level 0 when all counts are zero', () => {
+    const calendar = buildCalendar(daysBefore(0, 0, 0), 1, TODAY);
+    expect(calendar.flat().every((day) => day.level === 0)).toBe(true);
+    expect(calendar.flat().every((day) => day.count === 0)).toBe(true);
+  });
+
+  it('assigns levels by quartile of the active days', () => {
+    const counts = daysBefore(1, 3, 4, 5, 6, 7, 8, 0);
+    const levels = Object.fromEntries(
+      buildCalendar(counts, 2, TODAY)
+        .flat()
+        .map((day) => [day.count, day.level])
+    );
+    expect(levels).toEqual({
+      0: 0,
+      1: 1,
+      3: 1,
+      4: 2,
+      5: 2,
+      6: 3,
+      7: 3,
+      8: 4,
+    });
+  });
+});
+
+describe('computeStreaks', () => {
+  it('includes today when it has activity', () => {
+    const counts = { ...daysBefore(1, 2), [dayKey(TODAY)]: 1 };
+    expect(computeStreaks(counts, TODAY)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('keeps the streak alive when only yesterday has activity', () => {
+    expect(computeStreaks(daysBefore(1, 1, 1), TODAY)).toEqual({
+      current: 3,
+      longest: 3,
+    });
+  });
+
+  it('breaks the streak when neither today nor yesterday has activity', () => {
+    expect(computeStreaks(daysBefore(2, 2, 0), TODAY)).toEqual({
+      current: 0,
+      longest: 2,
+    });
+  });
+
+  it('tracks the longest run separately from the current one', () => {
+    expect(computeStreaks(daysBefore(1, 1, 1, 1, 0, 1), TODAY)).toEqual({
+      current: 1,
+      longest: 4,
+    });
+  });
+
+  it('is zero for all-zero counts', () => {
+    expect(computeStreaks(daysBefore(0, 0, 0), TODAY)).toEqual({
+      current: 0,
+      longest: 0,
+    });
+    expect(totalContributions(daysBefore(0, 0, 0))).toBe(0);
+  });
+});
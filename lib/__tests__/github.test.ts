@@ -0,0 +1,303 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  UnauthorizedError,
+  decodeContent,
+  describeError,
+  getCommitActivity,
+  parseNextLink,
+  request,
+  requestPage,
+  setAuthToken,
+} from '@/lib/github';
+
+interface MockResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+const mockResponse = ({
+  status = 200,
+  body = {},
+  headers = {},
+}: MockResponse = {}) =>
+  ({
+    status,
+    ok: status >= 200 && status < 300,
+    headers: {
+      get: (name: string) => headers[name.toLowerCase()] ?? null,
+    },
+    json: () => Promise.resolve(body),
+  }) as unknown as Response;
+
+const fetchMock = jest.fn<Promise<Response>, [string, RequestInit]>();
+
+beforeEach(async () => {
+  fetchMock.mockReset();
+  global.fetch = fetchMock as unknown as typeof fetch;
+  setAuthToken(null);
+  await AsyncStorage.clear();
+});
+
+describe('request', () => {
+  it('sends the API version and accept headers', async () => {
+    fetchMock.mockResolvedValue(mockResponse({ body: { login: 'octocat' } }));
+
+    await expect(request('/users/octocat')).resolves.toEqual({
+      login: 'octocat',
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.github.com/users/octocat');
+    expect(init.method).toBe('GET');
+    expect(init.headers).toEqual({
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    });
+  });
+
+  it('sends the token as a bearer authorization', async () => {
+    setAuthToken('secret');
+    fetchMock.mockResolvedValue(mockResponse());
+
+    await request('/user');
+    expect(fetchMock.mock.calls[0][1].headers).toMatchObject({
+      Authorization: 'Bearer secret',
+    });
+  });
+
+  it('serves the cached body when the ETag still matches', async () => {
+    fetchMock.mockResolvedValueOnce(
+      mockResponse({ body: { id: 1 }, headers: { etag: '"abc"' } })
+    );
+    await request('/repos/octocat/hello');
+
+    fetchMock.mockResolvedValueOnce(mockResponse({ status: 304 }));
+    await expect(request('/repos/octocat/hello')).resolves.toEqual({ id: 1 });
+    expect(fetchMock.mock.calls[1][1].headers).toMatchObject({
+      'If-None-Match': '"abc"',
+    });
+  });
+
+  it('drops API links the app does not use', async () => {
+    fetchMock.mockResolvedValueOnce(
+      mockResponse({
+        body: [
+          {
+            id: 1,
+            url: 'https://api.github.com/repos/octocat/hello',
+            forks_url: 'https://api.github.com/repos/octocat/hello/forks',
+            html_url: 'https://github.com/octocat/hello',
+            owner: {
+              login: 'octocat',
+              avatar_url: 'https://avatars.githubusercontent.com/u/1',
+              repos_url: 'https://api.github.com/users/octocat/repos',
+            },
+          },
+        ],
+        headers: { etag: '"abc"' },
+      })
+    );
+    const expected = [
+      {
+        id: 1,
+        html_url: 'https://github.com/octocat/hello',
+        owner: {
+          login: 'octocat',
+          avatar_url: 'https://avatars.githubusercontent.com/u/1',
+        },
+      },
+    ];
+    await expect(request('/users/octocat/repos')).resolves.toEqual(expected);
+
+    fetchMock.mockResolvedValueOnce(mockResponse({ status: 304 }));
+    await expect(request('/users/octocat/repos')).resolves.toEqual(expected);
+  });
+
+  it('throws NotFoundError on a 404', async () => {
+    fetchMock.mockResolvedValue(mockResponse({ status: 404 }));
+    await expect(request('/users/nobody')).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it('throws UnauthorizedError on a 401', async () => {
+    fetchMock.mockResolvedValue(mockResponse({ status: 401 }));
+    await expect(request('/user')).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('throws RateLimitError when a 403 has no requests remaining', async () => {
+    fetchMock.mockResolvedValue(
+      mockResponse({
+        status: 403,
+        headers: {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': '1700000000',
+        },
+      })
+    );
+    const error = await request('/users/octocat').catch((err) => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).resetAt).toEqual(
+      new Date(1700000000 * 1000)
+    );
+  });
+
+  it('treats other 403s as server errors', async () => {
+    fetchMock.mockResolvedValue(
+      mockResponse({
+        status: 403,
+        body: { message: 'Forbidden' },
+        headers: { 'x-ratelimit-remaining': '42' },
+      })
+    );
+    await expect(request('/users/octocat')).rejects.toThrow('Forbidden');
+  });
+
+  it('throws ServerError with the status on a 5xx', async () => {
+    fetchMock.mockResolvedValue(mockResponse({ status: 502 }));
+    const error = await request('/users/octocat').catch((err) => err);
+    expect(error).toBeInstanceOf(ServerError);
+    expect((error as ServerError).status).toBe(502);
+  });
+
+  it('throws NetworkError when fetch rejects', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Network request failed'));
+    await expect(request('/users/octocat')).rejects.toBeInstanceOf(
+      NetworkError
+    );
+  });
+
+  it('aborts and throws NetworkError after the timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      fetchMock.mockImplementation(
+        (_url, init) =>
+          new Promise((_resolve, reject) => {
+            init.signal?.addEventListener('abort', () =>
+              reject(new Error('Aborted'))
+            );
+          })
+      );
+      const result = request('/users/octocat').catch((err) => err);
+      await jest.advanceTimersByTimeAsync(15000);
+      const error = await result;
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as NetworkError).message).toBe('Request timed out');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('requestPage', () => {
+  it('follows the next link of the response', async () => {
+    fetchMock.mockResolvedValue(
+      mockResponse({
+        body: [{ id: 1 }],
+        headers: {
+          link: '<https://api.github.com/repos?page=2>; rel="next"',
+        },
+      })
+    );
+    await expect(requestPage('/repos')).resolves.toEqual({
+      items: [{ id: 1 }],
+      next: 'https://api.github.com/repos?page=2',
+    });
+  });
+});
+
+describe('getCommitActivity', () => {
+  it('polls while the statistics are being computed', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockResponse({ status: 202 }))
+      .mockResolvedValueOnce(
+        mockResponse({ body: [{ week: 1, total: 3, days: [] }] })
+      );
+    jest.useFakeTimers();
+    try {
+      const result = getCommitActivity('octocat', 'hello');
+      await jest.advanceTimersByTimeAsync(1000);
+      await expect(result).resolves.toEqual([{ week: 1, total: 3, days: [] }]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('throws when the statistics are still not ready', async () => {
+    fetchMock.mockResolvedValue(mockResponse({ status: 202 }));
+    await expect(getCommitActivity('octocat', 'hello', 0)).rejects.toEqual(
+      expect.objectContaining({ status: 202 })
+    );
+  });
+});
+
+describe('decodeContent', () => {
+  it('decodes base64 as UTF-8', () => {
+    expect(decodeContent('Q2Fmw6k=\n')).toBe('Café');
+  });
+
+  it('reads content that is not valid UTF-8 byte for byte', () => {
+    // `Caf\xE9`, Latin-1 for "Café".
+    expect(decodeContent('Q2Fm6Q==')).toBe('Café');
+  });
+});
+
+describe('parseNextLink', () => {
+  it('returns null without a header', () => {
+    expect(parseNextLink(null)).toBeNull();
+  });
+
+  it('picks the next URL among other relations', () => {
+    const link =
+      '<https://api.github.com/user/repos?page=1>; rel="prev", ' +
+      '<https://api.github.com/user/repos?page=3>; rel="next", ' +
+      '<https://api.github.com/user/repos?page=5>; rel="last"';
+    expect(parseNextLink(link)).toBe(
+      'https://api.github.com/user/repos?page=3'
+    );
+  });
+
+  it('returns null on the last page', () => {
+    expect(
+      parseNextLink('<https://api.github.com/user/repos?page=1>; rel="first"')
+    ).toBeNull();
+  });
+});
+
+describe('describeError', () => {
+  it.each([
+    ['/users/octocat', 'This GitHub account does not exist.'],
+    ['/orgs/expo', 'This GitHub account does not exist.'],
+    [
+      '/repos/octocat/hello-world',
+      'This repository does not exist or is private.',
+    ],
+    [
+      'https://api.github.com/repos/octocat/hello-world?per_page=1',
+      'This repository does not exist or is private.',
+    ],
+    [
+      '/repos/octocat/hello-world/issues/7',
+      'This could not be found on GitHub.',
+    ],
+    ['/users/octocat/repos', 'This could not be found on GitHub.'],
+  ])('names what was missing at %s', (path, message) => {
+    expect(describeError(new NotFoundError(path))).toBe(message);
+  });
+
+  it('explains a rejected token', () => {
+    expect(describeError(new UnauthorizedError())).toBe(
+      'Your access token was rejected. Update it in Settings.'
+    );
+  });
+
+  it('falls back to a generic message', () => {
+    expect(describeError(new Error('boom'))).toBe(
+      'GitHub is having trouble right now.'
+    );
+  });
+});
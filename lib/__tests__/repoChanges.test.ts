@@ -0,0 +1,129 @@
+import {
+  applyRule,
+  diffSnapshot,
+  isQuietTime,
+  type RepoChange,
+  type RepoSnapshot,
+} from '@/lib/repoChanges';
+
+const REPO = 'octocat/hello-world';
+
+const snapshot = (overrides: Partial<RepoSnapshot> = {}): RepoSnapshot => ({
+  stars: 10,
+  release: { id: 1, tag: 'v1.0.0' },
+  issue: { number: 5, title: 'Crash on launch' },
+  ...overrides,
+});
+
+const at = (hour: number) => new Date(2024, 5, 12, hour, 30);
+
+describe('diffSnapshot', () => {
+  it('reports nothing for a repo seen for the first time', () => {
+    expect(diffSnapshot(REPO, null, snapshot())).toEqual([]);
+  });
+
+  it('reports nothing when the repo is unchanged', () => {
+    expect(diffSnapshot(REPO, snapshot(), snapshot())).toEqual([]);
+  });
+
+  it('reports gained stars with the new total', () => {
+    expect(diffSnapshot(REPO, snapshot(), snapshot({ stars: 13 }))).toEqual([
+      { type: 'stars', repo: REPO, gained: 3, stars: 13 },
+    ]);
+  });
+
+  it('ignores lost stars', () => {
+    expect(diffSnapshot(REPO, snapshot(), snapshot({ stars: 8 }))).toEqual([]);
+  });
+
+  it('reports a new release, including the first one', () => {
+    const next = snapshot({ release: { id: 2, tag: 'v1.1.0' } });
+    expect(diffSnapshot(REPO, snapshot(), next)).toEqual([
+      { type: 'release', repo: REPO, tag: 'v1.1.0' },
+    ]);
+    expect(diffSnapshot(REPO, snapshot({ release: null }), next)).toEqual([
+      { type: 'release', repo: REPO, tag: 'v1.1.0' },
+    ]);
+  });
+
+  it('reports a newer issue but not a deleted newest one', () => {
+    expect(
+      diffSnapshot(
+        REPO,
+        snapshot(),
+        snapshot({ issue: { number: 7, title: 'Dark mode' } })
+      )
+    ).toEqual([{ type: 'issue', repo: REPO, number: 7, title: 'Dark mode' }]);
+    expect(
+      diffSnapshot(
+        REPO,
+        snapshot(),
+        snapshot({ issue: { number: 4, title: 'Older' } })
+      )
+    ).toEqual([]);
+  });
+
+  it('reports several changes at once', () => {
+    const changes = diffSnapshot(
+      REPO,
+      snapshot(),
+      snapshot({
+        stars: 11,
+        release: { id: 2, tag: 'v2' },
+        issue: { number: 6, title: 'New' },
+      })
+    );
+    expect(changes.map((change) => change.type)).toEqual([
+      'stars',
+      'release',
+      'issue',
+    ]);
+  });
+});
+
+describe('applyRule', () => {
+  const changes: RepoChange[] = [
+    { type: 'stars', repo: REPO, gained: 1, stars: 11 },
+    { type: 'release', repo: REPO, tag: 'v2' },
+  ];
+
+  it('keeps only the watched change types', () => {
+    expect(applyRule(changes, { repo: REPO, types: ['release'] })).toEqual([
+      changes[1],
+    ]);
+  });
+
+  it('drops everything when no types are watched', () => {
+    expect(applyRule(changes, { repo: REPO, types: [] })).toEqual([]);
+  });
+});
+
+describe('isQuietTime', () => {
+  it('is never quiet without quiet hours', () => {
+    expect(isQuietTime(at(3), null)).toBe(false);
+  });
+
+  it('covers a window within the day, excluding its end hour', () => {
+    const quiet = { start: 13, end: 15 };
+    expect(isQuietTime(at(12), quiet)).toBe(false);
+    expect(isQuietTime(at(13), quiet)).toBe(true);
+    expect(isQuietTime(at(14), quiet)).toBe(true);
+    expect(isQuietTime(at(15), quiet)).toBe(false);
+  });
+
+  it('covers a window that spans midnight', () => {
+    const quiet = { start: 22, end: 7 };
+    expect(isQuietTime(at(21), quiet)).toBe(false);
+    expect(isQuietTime(at(22), quiet)).toBe(true);
+    expect(isQuietTime(at(0), quiet)).toBe(true);
+    expect(isQuietTime(at(6), quiet)).toBe(true);
+    expect(isQuietTime(at(7), quiet)).toBe(false);
+    expect(isQuietTime(at(12), quiet)).toBe(false);
+  });
+
+  it('treats an empty window (start === end) as never quiet', () => {
+    const quiet = { start: 8, end: 8 };
+    expect(isQuietTime(at(8), quiet)).toBe(false);
+    expect(isQuietTime(at(20), quiet)).toBe(false);
+  });
+});
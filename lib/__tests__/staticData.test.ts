@@ -0,0 +1,94 @@
+import { getAllUserRepos, getUser } from '@/lib/github';
+import { profileFixture, repoFixture } from '@/test/fixtures';
+
+jest.mock('@/lib/github', () => ({
+  ...jest.requireActual('@/lib/github'),
+  getUser: jest.fn(),
+  getAllUserRepos: jest.fn(),
+}));
+
+type StaticDataModule = typeof import('@/lib/staticData');
+
+// The data is module state, read from the page once on load.
+const loadModule = () => {
+  let staticData!: StaticDataModule;
+  jest.isolateModules(() => {
+    staticData = require('@/lib/staticData');
+  });
+  return staticData;
+};
+
+const withPage = (script: string | null, load: () => StaticDataModule) => {
+  const original = global.document;
+  global.document = {
+    getElementById: (id: string) =>
+      id === 'static-data' && script !== null ? { textContent: script } : null,
+  } as unknown as Document;
+  try {
+    return load();
+  } finally {
+    global.document = original;
+  }
+};
+
+const exportedRepo = {
+  ...repoFixture({ description: 'Ends early </script><script>alert(1)' }),
+  node_id: 'MDEwOlJlcG9zaXRvcnkxMjk2MjY5',
+  owner: { ...repoFixture().owner, id: 583231, type: 'User' },
+};
+
+beforeEach(() => {
+  jest.mocked(getUser).mockResolvedValue(profileFixture);
+  jest.mocked(getAllUserRepos).mockResolvedValue([exportedRepo]);
+});
+
+describe('serializeStaticData', () => {
+  it('has nothing to send before the export loads data', () => {
+    expect(loadModule().serializeStaticData()).toBeNull();
+  });
+
+  it('sends only the fields the app reads', async () => {
+    const staticData = loadModule();
+    await staticData.loadStaticData('octocat');
+
+    const { repos } = JSON.parse(staticData.serializeStaticData()!);
+    expect(repos).toEqual([
+      repoFixture({ description: exportedRepo.description }),
+    ]);
+  });
+
+  it('cannot end the script it is embedded in', async () => {
+    const staticData = loadModule();
+    await staticData.loadStaticData('octocat');
+    expect(staticData.serializeStaticData()).not.toContain('</script>');
+  });
+});
+
+describe('embedded static data', () => {
+  it('reads back what the export embedded', async () => {
+    const exporter = loadModule();
+    await exporter.loadStaticData('octocat');
+    const script = exporter.serializeStaticData();
+
+    const page = withPage(script, loadModule);
+    expect(page.getStaticAccount('OctoCat')).toEqual({
+      profile: profileFixture,
+      repos: [repoFixture({ description: exportedRepo.description })],
+    });
+    expect(page.getStaticRepo('octocat', 'hello-world')).not.toBeNull();
+  });
+
+  it('belongs only to the exported account', async () => {
+    const exporter = loadModule();
+    await exporter.loadStaticData('octocat');
+
+    const page = withPage(exporter.serializeStaticData(), loadModule);
+    expect(page.getStaticAccount('someone-else')).toBeNull();
+  });
+
+  it('starts empty on a page without data', () => {
+    const page = withPage('not json', loadModule);
+    expect(page.getStaticAccount('octocat')).toBeNull();
+    expect(page.getStaticRepos()).toEqual([]);
+  });
+});
@@ -0,0 +1,8 @@
+import type { Component } from 'react';
+import { AccessibilityInfo, findNodeHandle } from 'react-native';
+
+/** Moves the screen reader cursor to an element, which reads it out. */
+export const moveAccessibilityFocus = (target: Component | null) => {
+  const node = findNodeHandle(target);
+  if (node) AccessibilityInfo.setAccessibilityFocus(node);
+};
@@ -0,0 +1,10 @@
+import type { Component } from 'react';
+
+// Screen readers follow DOM focus. A tabindex of -1 lets an element such as a
+// heading take focus without becoming a tab stop.
+export const moveAccessibilityFocus = (target: Component | null) => {
+  const element: unknown = target;
+  if (!(element instanceof HTMLElement)) return;
+  element.setAttribute('tabindex', '-1');
+  element.focus({ preventScroll: true });
+};
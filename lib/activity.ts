@@ -0,0 +1,115 @@
+import { format, isToday, isYesterday, parseISO } from 'date-fns';
+import { isKnownEvent, type GitHubEvent } from '@/lib/github';
+import { getDateLocale, t, type Language } from '@/lib/i18n';
+
+interface ActivityBase {
+  id: string;
+  owner: string;
+  repo: string;
+  createdAt: string;
+}
+
+export type ActivityItem = ActivityBase &
+  (
+    | {
+        kind: 'push';
+        branch: string;
+        commits: { sha: string; message: string }[];
+      }
+    | {
+        kind: 'pullRequest';
+        action: string;
+        number: number;
+        title: string;
+        merged: boolean;
+      }
+    | { kind: 'issue'; action: string; number: number; title: string }
+    | { kind: 'release'; name: string; tag: string }
+    | { kind: 'star' }
+    | { kind: 'fork'; forkee: string }
+  );
+
+export interface ActivitySection {
+  title: string;
+  data: ActivityItem[];
+}
+
+/** Maps a raw event to a card, or `null` for event types we do not show. */
+export function toActivityItem(event: GitHubEvent): ActivityItem | null {
+  if (!isKnownEvent(event)) return null;
+  const [owner, repo] = event.repo.name.split('/');
+  const base = { id: event.id, owner, repo, createdAt: event.created_at };
+
+  switch (event.type) {
+    case 'PushEvent':
+      return {
+        ...base,
+        kind: 'push',
+        branch: (event.payload.ref ?? '').replace('refs/heads/', ''),
+        commits: (event.payload.commits ?? []).map((commit) => ({
+          sha: commit.sha,
+          message: commit.message.split('\n')[0],
+        })),
+      };
+    case 'PullRequestEvent': {
+      const { action, number, pull_request } = event.payload;
+      return {
+        ...base,
+        kind: 'pullRequest',
+        action,
+        number: number ?? pull_request.number,
+        title: pull_request.title ?? '',
+        merged: !!pull_request.merged,
+      };
+    }
+    case 'IssuesEvent':
+      return {
+        ...base,
+        kind: 'issue',
+        action: event.payload.action,
+        number: event.payload.issue.number,
+        title: event.payload.issue.title,
+      };
+    case 'ReleaseEvent': {
+      const { release } = event.payload;
+      return {
+        ...base,
+        kind: 'release',
+        name: release.name || release.tag_name,
+        tag: release.tag_name,
+      };
+    }
+    case 'WatchEvent':
+      return { ...base, kind: 'star' };
+    case 'ForkEvent':
+      return { ...base, kind: 'fork', forkee: event.payload.forkee.full_name };
+    default:
+      return null;
+  }
+}
+
+const dayTitle = (date: Date, language: Language) => {
+  if (isToday(date)) return t('activity.today', { locale: language });
+  if (isYesterday(date)) return t('activity.yesterday', { locale: language });
+  return format(date, 'EEEE, MMM d', { locale: getDateLocale(language) });
+};
+
+// Events arrive newest first, so consecutive items share a day.
+export function groupByDay(
+  events: GitHubEvent[],
+  language: Language
+): ActivitySection[] {
+  const sections: ActivitySection[] = [];
+  events.forEach((event) => {
+    const item = toActivityItem(event);
+    if (!item) return;
+    const title = dayTitle(parseISO(item.createdAt), language);
+    const last = sections[sections.length - 1];
+    if (last?.title === title) {
+      last.data.push(item);
+    } else {
+      sections.push({ title, data: [item] });
+    }
+  });
+  return sections;
+}
@@ -0,0 +1,162 @@
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as Notifications from 'expo-notifications';
+import * as TaskManager from 'expo-task-manager';
+import {
+  getIssuesPage,
+  getReleasesPage,
+  getRepo,
+  setAuthToken,
+} from '@/lib/github';
+import { t } from '@/lib/i18n';
+import {
+  applyRule,
+  diffSnapshot,
+  isQuietTime,
+  type RepoChange,
+  type RepoSnapshot,
+} from '@/lib/repoChanges';
+import { loadToken } from '@/lib/tokenStorage';
+import {
+  loadSnapshots,
+  loadWatchSettings,
+  saveSnapshots,
+} from '@/lib/watchSettings';
+
+const BACKGROUND_REFRESH_TASK = 'background-repo-refresh';
+
+// The OS treats this as a lower bound and usually runs the task less often.
+const MINIMUM_INTERVAL_SECONDS = 30 * 60;
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+async function takeSnapshot(fullName: string): Promise<RepoSnapshot> {
+  const [owner, name] = fullName.split('/');
+  const [repo, releases, issues] = await Promise.all([
+    getRepo(owner, name),
+    getReleasesPage(owner, name),
+    getIssuesPage(owner, name, { state: 'all', labels: [] }),
+  ]);
+  const release = releases.items.find((item) => !item.draft);
+  const issue = issues.items.find((item) => !item.pull_request);
+  return {
+    stars: repo.stargazers_count,
+    release: release ? { id: release.id, tag: release.tag_name } : null,
+    issue: issue ? { number: issue.number, title: issue.title } : null,
+  };
+}
+
+const describeChange = (change: RepoChange) => {
+  switch (change.type) {
+    case 'stars':
+      return {
+        title: t('notifications.stars', {
+          count: change.gained,
+          repo: change.repo,
+        }),
+        body: t('notifications.starsTotal', { count: change.stars }),
+      };
+    case 'release':
+      return {
+        title: t('notifications.release', { repo: change.repo }),
+        body: change.tag,
+      };
+    case 'issue':
+      return {
+        title: t('notifications.issue', {
+          repo: change.repo,
+          number: change.number,
+        }),
+        body: change.title,
+      };
+  }
+};
+
+const notify = (change: RepoChange) =>
+  Notifications.scheduleNotificationAsync({
+    content: { ...describeChange(change), data: { repo: change.repo } },
+    trigger: null,
+  });
+
+/**
+ * Diffs every watched repo against its last snapshot and raises a
+ * notification for each change its rule asks for. Returns how many were
+ * raised.
+ */
+export async function refreshWatchedRepos(now = new Date()) {
+  const settings = await loadWatchSettings();
+  // Skipping the run keeps the old snapshots, so anything that happens
+  // during quiet hours is reported on the first run after them.
+  if (!settings.enabled || isQuietTime(now, settings.quietHours)) return 0;
+
+  const token = await loadToken();
+  if (token) setAuthToken(token);
+
+  const snapshots = await loadSnapshots();
+  const changes: RepoChange[] = [];
+  for (const rule of settings.rules) {
+    try {
+      const snapshot = await takeSnapshot(rule.repo);
+      const previous = snapshots[rule.repo] ?? null;
+      changes.push(
+        ...applyRule(diffSnapshot(rule.repo, previous, snapshot), rule)
+      );
+      snapshots[rule.repo] = snapshot;
+    } catch {
+      // Keep the old snapshot; the next run diffs against it again.
+    }
+  }
+  await saveSnapshots(snapshots);
+  await Promise.all(changes.map(notify));
+  return changes.length;
+}
+
+TaskManager.defineTask(BACKGROUND_REFRESH_TASK, async () => {
+  try {
+    return (await refreshWatchedRepos())
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch {
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+// Why background refresh could not be turned on.
+export type EnableFailure = 'permissionDenied' | 'unavailable';
+
+/**
+ * Asks for notification permission and schedules the task. Resolves to why
+ * that failed, or null. Background fetch is unavailable in Expo Go on iOS
+ * and when the user restricted or denied it for the app.
+ */
+export async function enableBackgroundRefresh(): Promise<EnableFailure | null> {
+  try {
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      return 'unavailable';
+    }
+    const { granted } = await Notifications.requestPermissionsAsync();
+    if (!granted) return 'permissionDenied';
+    await BackgroundFetch.registerTaskAsync(BACKGROUND_REFRESH_TASK, {
+      minimumInterval: MINIMUM_INTERVAL_SECONDS,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+    return null;
+  } catch {
+    return 'unavailable';
+  }
+}
+
+export async function disableBackgroundRefresh() {
+  if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_REFRESH_TASK)) {
+    await BackgroundFetch.unregisterTaskAsync(BACKGROUND_REFRESH_TASK);
+  }
+}
+
+export const isBackgroundRefreshSupported = true;
@@ -0,0 +1,12 @@
+// Browsers have no background fetch, so watching repos is native-only.
+export const refreshWatchedRepos = async () => 0;
+
+export type EnableFailure = 'permissionDenied' | 'unavailable';
+
+export const enableBackgroundRefresh = async (): Promise<
+  EnableFailure | null
+> => 'unavailable';
+
+export const disableBackgroundRefresh = async () => undefined;
+
+export const isBackgroundRefreshSupported = false;
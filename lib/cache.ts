@@ -0,0 +1,95 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const CACHE_PREFIX = 'cache:';
+const INDEX_KEY = 'cacheIndex';
+
+// Android's AsyncStorage database defaults to 6 MB and every other setting
+// lives in it too, so snapshots may only use part of it. Sizes are counted
+// in characters of the serialized entry.
+export const MAX_CACHE_BYTES = 2 * 1024 * 1024;
+
+export interface CacheEntry<T> {
+  data: T;
+  etag: string | null;
+  syncedAt: number;
+}
+
+interface IndexEntry {
+  key: string;
+  bytes: number;
+}
+
+// Cache keys with the size of their entry, least recently used first.
+// Loaded once and then only changed synchronously, so concurrent reads and
+// writes can't lose each other's updates.
+let index: Promise<IndexEntry[]> | null = null;
+
+const loadIndex = () =>
+  (index ??= AsyncStorage.getItem(INDEX_KEY)
+    .then(async (raw) => {
+      // Earlier versions stored bare keys; their sizes are learned when
+      // they are written again.
+      if (raw) {
+        return (JSON.parse(raw) as (IndexEntry | string)[]).map((entry) =>
+          typeof entry === 'string' ? { key: entry, bytes: 0 } : entry
+        );
+      }
+      // Entries written before the index existed.
+      const keys = await AsyncStorage.getAllKeys();
+      return keys
+        .filter((key) => key.startsWith(CACHE_PREFIX))
+        .map((key) => ({ key: key.slice(CACHE_PREFIX.length), bytes: 0 }));
+    })
+    .catch(() => []));
+
+// Marks `key` as the most recently used, recording its size when known.
+async function touch(key: string, bytes?: number) {
+  const entries = await loadIndex();
+  const position = entries.findIndex((entry) => entry.key === key);
+  const [existing] = position === -1 ? [] : entries.splice(position, 1);
+  entries.push({ key, bytes: bytes ?? existing?.bytes ?? 0 });
+  return entries;
+}
+
+// Drops the least recently used entries until the rest fit the budget.
+async function evict(key: string, bytes: number) {
+  const entries = await touch(key, bytes);
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  let count = 0;
+  while (total > MAX_CACHE_BYTES) {
+    total -= entries[count].bytes;
+    count += 1;
+  }
+  const evicted = entries.splice(0, count);
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(entries));
+  if (evicted.length > 0) {
+    await AsyncStorage.multiRemove(
+      evicted.map((entry) => CACHE_PREFIX + entry.key)
+    );
+  }
+}
+
+export async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_PREFIX + key);
+    if (!raw) return null;
+    // The new order is persisted with the next write.
+    await touch(key);
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCache<T>(
+  key: string,
+  data: T,
+  etag: string | null = null
+): Promise<CacheEntry<T>> {
+  const entry = { data, etag, syncedAt: Date.now() };
+  const raw = JSON.stringify(entry);
+  // A full or unavailable storage must never fail the request it caches.
+  await AsyncStorage.setItem(CACHE_PREFIX + key, raw).catch(() => undefined);
+  await evict(key, raw.length).catch(() => undefined);
+  return entry;
+}
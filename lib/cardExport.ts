@@ -0,0 +1,31 @@
+import type { RefObject } from 'react';
+import type { View } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { captureRef } from 'react-native-view-shot';
+import type { RenderedCard } from '@/lib/shareCard';
+
+export type CardFormat = 'png' | 'svg';
+
+/**
+ * Hands the card to the native share sheet. PNGs are captured from the
+ * on-screen preview, which the OS rasterises at the display's pixel density.
+ */
+export async function exportCard(
+  card: RenderedCard,
+  format: CardFormat,
+  preview: RefObject<View>,
+  fileName: string
+) {
+  let uri: string;
+  if (format === 'png') {
+    uri = await captureRef(preview, { format: 'png', result: 'tmpfile' });
+  } else {
+    uri = `${FileSystem.cacheDirectory}${fileName}.svg`;
+    await FileSystem.writeAsStringAsync(uri, card.svg);
+  }
+  await Sharing.shareAsync(uri, {
+    mimeType: format === 'png' ? 'image/png' : 'image/svg+xml',
+    UTI: format === 'png' ? 'public.png' : 'public.svg-image',
+  });
+}
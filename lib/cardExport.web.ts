@@ -0,0 +1,51 @@
+import type { RefObject } from 'react';
+import type { View } from 'react-native';
+import type { RenderedCard } from '@/lib/shareCard';
+
+export type CardFormat = 'png' | 'svg';
+
+// PNGs are drawn at twice the card size so they stay sharp on HiDPI screens.
+const PNG_SCALE = 2;
+
+const download = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  link.click();
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not render the card'));
+    image.src = src;
+  });
+
+/** Downloads the card; there is no share sheet to hand it to on web. */
+export async function exportCard(
+  card: RenderedCard,
+  format: CardFormat,
+  _preview: RefObject<View>,
+  fileName: string
+) {
+  const url = URL.createObjectURL(
+    new Blob([card.svg], { type: 'image/svg+xml' })
+  );
+  try {
+    if (format === 'svg') {
+      download(url, `${fileName}.svg`);
+      return;
+    }
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = card.width * PNG_SCALE;
+    canvas.height = card.height * PNG_SCALE;
+    const context = canvas.getContext('2d');
+    context?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    download(canvas.toDataURL('image/png'), `${fileName}.png`);
+  } finally {
+    // The click starts the download synchronously, so the URL can go.
+    URL.revokeObjectURL(url);
+  }
+}
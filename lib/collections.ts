@@ -0,0 +1,149 @@
+// Repos are referenced by `full_name` (`owner/name`) so saved lists don't
+// need to keep a copy of the repo data in sync.
+export interface Collection {
+  id: string;
+  name: string;
+  repos: string[];
+}
+
+export interface SavedRepos {
+  pinned: string[];
+  collections: Collection[];
+}
+
+export const EMPTY_SAVED_REPOS: SavedRepos = { pinned: [], collections: [] };
+
+// Bumped whenever the export format changes shape.
+const EXPORT_VERSION = 1;
+
+export class InvalidImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidImportError';
+  }
+}
+
+export const sameRepo = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+export const includesRepo = (repos: string[], fullName: string) =>
+  repos.some((repo) => sameRepo(repo, fullName));
+
+const toggleRepo = (repos: string[], fullName: string) =>
+  includesRepo(repos, fullName)
+    ? repos.filter((repo) => !sameRepo(repo, fullName))
+    : [...repos, fullName];
+
+const union = (a: string[], b: string[]) =>
+  b.reduce((acc, repo) => (includesRepo(acc, repo) ? acc : [...acc, repo]), a);
+
+export const togglePinned = (
+  saved: SavedRepos,
+  fullName: string
+): SavedRepos => ({ ...saved, pinned: toggleRepo(saved.pinned, fullName) });
+
+const newId = () =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+export const createCollection = (
+  saved: SavedRepos,
+  name: string
+): SavedRepos => ({
+  ...saved,
+  collections: [
+    ...saved.collections,
+    { id: newId(), name: name.trim(), repos: [] },
+  ],
+});
+
+export const deleteCollection = (
+  saved: SavedRepos,
+  id: string
+): SavedRepos => ({
+  ...saved,
+  collections: saved.collections.filter((collection) => collection.id !== id),
+});
+
+export const toggleInCollection = (
+  saved: SavedRepos,
+  id: string,
+  fullName: string
+): SavedRepos => ({
+  ...saved,
+  collections: saved.collections.map((collection) =>
+    collection.id === id
+      ? { ...collection, repos: toggleRepo(collection.repos, fullName) }
+      : collection
+  ),
+});
+
+/**
+ * Folds an import into what's already saved: pins are unioned and
+ * collections with the same name (case-insensitively) are merged, so
+ * importing the same file twice changes nothing.
+ */
+export const mergeSavedRepos = (
+  current: SavedRepos,
+  incoming: SavedRepos
+): SavedRepos => {
+  const collections = [...current.collections];
+  for (const collection of incoming.collections) {
+    const index = collections.findIndex(
+      (existing) =>
+        existing.name.toLowerCase() === collection.name.toLowerCase()
+    );
+    if (index === -1) {
+      collections.push({ ...collection, id: newId() });
+    } else {
+      collections[index] = {
+        ...collections[index],
+        repos: union(collections[index].repos, collection.repos),
+      };
+    }
+  }
+  return { pinned: union(current.pinned, incoming.pinned), collections };
+};
+
+export const exportSavedRepos = (saved: SavedRepos) =>
+  JSON.stringify({ version: EXPORT_VERSION, ...saved }, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isRepoList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.every((repo) => typeof repo === 'string' && repo.includes('/'));
+
+const parseCollection = (collection: unknown): Collection => {
+  if (
+    !isRecord(collection) ||
+    typeof collection.name !== 'string' ||
+    !collection.name.trim() ||
+    !isRepoList(collection.repos)
+  ) {
+    throw new InvalidImportError('Malformed collection');
+  }
+  return {
+    id: typeof collection.id === 'string' ? collection.id : newId(),
+    name: collection.name.trim(),
+    repos: collection.repos,
+  };
+};
+
+/** Parses an export. Throws `InvalidImportError` if it isn't one. */
+export function parseSavedRepos(json: string): SavedRepos {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new InvalidImportError('Not valid JSON');
+  }
+  if (!isRecord(value) || value.version !== EXPORT_VERSION) {
+    throw new InvalidImportError('Unsupported export version');
+  }
+  const { pinned, collections } = value;
+  if (!isRepoList(pinned) || !Array.isArray(collections)) {
+    throw new InvalidImportError('Missing pinned repos or collections');
+  }
+  return { pinned, collections: collections.map(parseCollection) };
+}
@@ -0,0 +1,58 @@
+import {
+  getAllUserRepos,
+  getUser,
+  type GitHubProfile,
+  type Repository,
+} from '@/lib/github';
+import {
+  aggregateLanguages,
+  toShares,
+  type LanguageShare,
+} from '@/lib/languages';
+
+export const MIN_COMPARED_USERS = 2;
+export const MAX_COMPARED_USERS = 4;
+
+export interface UserSummary {
+  profile: GitHubProfile;
+  totalStars: number;
+  languages: LanguageShare[];
+  topRepos: Repository[];
+}
+
+/**
+ * Reads the `users` route param (`?users=a,b`). Names are trimmed, de-duped
+ * case-insensitively and capped at `MAX_COMPARED_USERS`.
+ */
+export const parseUsers = (param: string | undefined) =>
+  (param ?? '')
+    .split(',')
+    .map((user) => user.trim())
+    .filter(
+      (user, index, users) =>
+        !!user &&
+        users.findIndex(
+          (other) => other.toLowerCase() === user.toLowerCase()
+        ) === index
+    )
+    .slice(0, MAX_COMPARED_USERS);
+
+export const summarize = (
+  profile: GitHubProfile,
+  repos: Repository[]
+): UserSummary => ({
+  profile,
+  totalStars: repos.reduce((acc, repo) => acc + repo.stargazers_count, 0),
+  languages: toShares(aggregateLanguages(repos), 3),
+  topRepos: [...repos]
+    .sort((a, b) => b.stargazers_count - a.stargazers_count)
+    .slice(0, 3),
+});
+
+export async function getUserSummary(username: string) {
+  const [profile, repos] = await Promise.all([
+    getUser(username),
+    getAllUserRepos(username),
+  ]);
+  return summarize(profile, repos);
+}
@@ -0,0 +1,131 @@
+import { addDays, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import {
+  isKnownEvent,
+  type ContributionDay,
+  type GitHubEvent,
+} from '@/lib/github';
+
+// Contribution counts keyed by local calendar day (`yyyy-MM-dd`).
+export type DailyCounts = Record<string, number>;
+
+export interface CalendarDay {
+  date: string;
+  count: number;
+  // 0 (no activity) to 4 (busiest), like the github.com calendar.
+  level: number;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+export const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Roughly what GitHub counts as a contribution for each public event type.
+const eventWeight = (event: GitHubEvent) => {
+  if (!isKnownEvent(event)) return 0;
+  switch (event.type) {
+    case 'PushEvent':
+      return Math.max(event.payload.distinct_size ?? event.payload.size ?? 1, 1);
+    case 'PullRequestEvent':
+    case 'IssuesEvent':
+      return event.payload.action === 'opened' ? 1 : 0;
+    case 'PullRequestReviewEvent':
+      return 1;
+    case 'CreateEvent':
+      return event.payload.ref_type === 'repository' ? 1 : 0;
+    default:
+      return 0;
+  }
+};
+
+export function countEvents(events: GitHubEvent[]): DailyCounts {
+  return events.reduce<DailyCounts>((counts, event) => {
+    const weight = eventWeight(event);
+    if (weight) {
+      const key = dayKey(new Date(event.created_at));
+      counts[key] = (counts[key] ?? 0) + weight;
+    }
+    return counts;
+  }, {});
+}
+
+export const countCalendarDays = (days: ContributionDay[]): DailyCounts =>
+  Object.fromEntries(days.map((day) => [day.date, day.contributionCount]));
+
+// Splits the non-zero counts into quartiles so a single busy day does not
+// wash out the rest of the calendar.
+const levelFor = (count: number, thresholds: number[]) => {
+  if (count === 0) return 0;
+  const level = thresholds.findIndex((threshold) => count <= threshold);
+  return level === -1 ? 4 : level + 1;
+};
+
+const quartiles = (counts: number[]) => {
+  const sorted = counts.filter((count) => count > 0).sort((a, b) => a - b);
+  if (!sorted.length) return [];
+  return [0.25, 0.5, 0.75].map(
+    (q) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))]
+  );
+};
+
+/**
+ * Lays the counts out as week columns (Sunday first) ending with the week
+ * that contains `today`. Days after `today` are omitted.
+ */
+export function buildCalendar(
+  counts: DailyCounts,
+  weeks: number,
+  today: Date = new Date()
+): CalendarDay[][] {
+  const todayKey = dayKey(today);
+  const thresholds = quartiles(Object.values(counts));
+  const start = startOfWeek(subWeeks(today, weeks - 1));
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) =>
+      dayKey(addDays(start, week * 7 + weekday))
+    )
+      .filter((date) => date <= todayKey)
+      .map((date) => {
+        const count = counts[date] ?? 0;
+        return { date, count, level: levelFor(count, thresholds) };
+      })
+  );
+}
+
+/**
+ * The current streak still counts if today has no activity yet, as long as
+ * yesterday did.
+ */
+export function computeStreaks(
+  counts: DailyCounts,
+  today: Date = new Date()
+): Streaks {
+  const activeDays = Object.keys(counts)
+    .filter((date) => counts[date] > 0)
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  activeDays.forEach((date) => {
+    run =
+      previous && dayKey(addDays(parseISO(previous), 1)) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  });
+
+  let current = 0;
+  let cursor = counts[dayKey(today)] ? today : addDays(today, -1);
+  while (counts[dayKey(cursor)] > 0) {
+    current += 1;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, longest };
+}
+
+export const totalContributions = (counts: DailyCounts) =>
+  Object.values(counts).reduce((acc, count) => acc + count, 0);
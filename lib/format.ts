@@ -0,0 +1,27 @@
+import { formatDistanceToNow, isValid } from 'date-fns';
+import type { Repository } from '@/lib/github';
+import { getDateLocale, t } from '@/lib/i18n';
+
+// Helper function to safely format dates, e.g. "3 days ago"
+export const formatDate = (value: string | number | undefined | null) => {
+  if (!value) return t('common.notAvailable');
+  const date = new Date(value);
+  return isValid(date)
+    ? formatDistanceToNow(date, { addSuffix: true, locale: getDateLocale() })
+    : t('common.notAvailable');
+};
+
+// Screen reader label for a stat tile, e.g. "1,204 followers".
+export const describeStat = (value: number, label: string) =>
+  t('a11y.stat', { value: value.toLocaleString(), label });
+
+// Screen reader label for a repo card: name, description, language, stars.
+export const describeRepo = (repo: Repository) =>
+  [
+    repo.name,
+    repo.description,
+    repo.language,
+    t('a11y.stars', { count: repo.stargazers_count }),
+  ]
+    .filter(Boolean)
+    .join(', ');
@@ -0,0 +1,673 @@
+import { readCache, writeCache } from '@/lib/cache';
+import { getLanguage, t, type TranslationKey } from '@/lib/i18n';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+const API_VERSION = '2022-11-28';
+const REQUEST_TIMEOUT_MS = 15000;
+
+export interface GitHubProfile {
+  login: string;
+  type: 'User' | 'Organization';
+  avatar_url: string;
+  html_url: string;
+  name: string | null;
+  bio: string | null;
+  blog: string | null;
+  location: string | null;
+  public_repos: number;
+  followers: number;
+  following: number;
+}
+
+export interface Organization {
+  login: string;
+  avatar_url: string;
+  html_url: string;
+  name: string | null;
+  description: string | null;
+  blog: string | null;
+  location: string | null;
+  email: string | null;
+  // Set once the organization has verified ownership of its domain.
+  is_verified: boolean;
+  public_repos: number;
+  followers: number;
+}
+
+export interface OrgMember {
+  id: number;
+  login: string;
+  avatar_url: string;
+  html_url: string;
+}
+
+// Values of the `type` filter on `/orgs/:org/repos`.
+export type OrgRepoType = 'all' | 'public' | 'sources' | 'forks';
+
+export interface Repository {
+  id: number;
+  name: string;
+  full_name: string;
+  owner: { login: string; avatar_url: string };
+  description: string | null;
+  html_url: string;
+  language: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  topics: string[];
+  fork: boolean;
+  archived: boolean;
+  default_branch: string;
+  // Repository size in kilobytes.
+  size: number;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string;
+}
+
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+export class GitHubError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitHubError';
+  }
+}
+
+export class NotFoundError extends GitHubError {
+  // The API path or URL that answered 404.
+  path: string;
+
+  constructor(path: string) {
+    super(`Not found: ${path}`);
+    this.name = 'NotFoundError';
+    this.path = path;
+  }
+}
+
+export class RateLimitError extends GitHubError {
+  resetAt: Date;
+
+  constructor(resetAt: Date) {
+    super(`GitHub API rate limit exceeded until ${resetAt.toISOString()}`);
+    this.name = 'RateLimitError';
+    this.resetAt = resetAt;
+  }
+}
+
+export class UnauthorizedError extends GitHubError {
+  constructor() {
+    super('GitHub rejected the access token');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class NetworkError extends GitHubError {
+  constructor(message = 'Network request failed') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ServerError extends GitHubError {
+  status: number;
+
+  constructor(status: number, message?: string) {
+    super(message || `GitHub API responded with ${status}`);
+    this.name = 'ServerError';
+    this.status = status;
+  }
+}
+
+// Human-readable reason for a failed request, for error states and banners.
+// Names what was missing when the path says so, e.g. `/users/:name`.
+const notFoundMessage = (path: string): TranslationKey => {
+  const [resource] = path.replace(GITHUB_API_URL, '').split('?');
+  if (/^\/(users|orgs)\/[^/]+$/.test(resource)) return 'errors.accountNotFound';
+  if (/^\/repos\/[^/]+\/[^/]+$/.test(resource)) return 'errors.repoNotFound';
+  return 'errors.notFound';
+};
+
+export const describeError = (error: unknown) => {
+  if (error instanceof RateLimitError) {
+    return t('errors.rateLimited', {
+      time: error.resetAt.toLocaleTimeString(getLanguage()),
+    });
+  }
+  if (error instanceof NotFoundError) {
+    return t(notFoundMessage(error.path));
+  }
+  if (error instanceof UnauthorizedError) {
+    return t('errors.unauthorized');
+  }
+  if (error instanceof NetworkError) {
+    return t('errors.offline');
+  }
+  return t('errors.server');
+};
+
+const isRateLimited = (response: Response) =>
+  (response.status === 403 || response.status === 429) &&
+  response.headers.get('x-ratelimit-remaining') === '0';
+
+const rateLimitReset = (response: Response) => {
+  const reset = Number(response.headers.get('x-ratelimit-reset'));
+  return reset ? new Date(reset * 1000) : new Date(Date.now() + 60 * 1000);
+};
+
+let authToken: string | null = null;
+let rateLimit: RateLimit | null = null;
+const rateLimitListeners = new Set<() => void>();
+
+export const setAuthToken = (token: string | null) => {
+  authToken = token;
+};
+
+export const getRateLimit = () => rateLimit;
+
+export const subscribeRateLimit = (listener: () => void) => {
+  rateLimitListeners.add(listener);
+  return () => {
+    rateLimitListeners.delete(listener);
+  };
+};
+
+const recordRateLimit = (response: Response) => {
+  const limit = response.headers.get('x-ratelimit-limit');
+  const remaining = response.headers.get('x-ratelimit-remaining');
+  if (limit === null || remaining === null) return;
+  rateLimit = {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    resetAt: rateLimitReset(response),
+  };
+  rateLimitListeners.forEach((listener) => listener());
+};
+
+export interface Page<T> {
+  items: T[];
+  next: string | null;
+}
+
+const REPOS_PER_PAGE = 100;
+
+// Extracts the `rel="next"` URL from a GitHub `Link` response header.
+export const parseNextLink = (link: string | null) => {
+  if (!link) return null;
+  const match = link
+    .split(',')
+    .map((part) => part.match(/<([^>]+)>;\s*rel="next"/))
+    .find(Boolean);
+  return match ? match[1] : null;
+};
+
+interface GitHubResponse {
+  status: number;
+  // Parsed JSON; typed by the caller that knows the endpoint.
+  body: unknown;
+  link: string | null;
+}
+
+interface SendOptions {
+  token?: string | null;
+  // JSON body; turns the request into an uncached POST.
+  body?: unknown;
+}
+
+interface CachedResponse {
+  body: unknown;
+  link: string | null;
+}
+
+// API responses are mostly hypermedia links (`url`, `forks_url`, ...) the
+// app never follows; only the links it shows or opens are kept in the cache.
+const KEPT_URL_FIELDS = new Set(['html_url', 'avatar_url']);
+
+const withoutApiLinks = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withoutApiLinks);
+  if (value === null || typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(
+        ([field]) =>
+          !(field === 'url' || field.endsWith('_url')) ||
+          KEPT_URL_FIELDS.has(field)
+      )
+      .map(([field, nested]) => [field, withoutApiLinks(nested)])
+  );
+};
+
+// Every GET is sent with the ETag of the last response for the same URL, so
+// unchanged resources come back as 304s that do not count against the limit.
+async function send(
+  pathOrUrl: string,
+  { token = authToken, body: requestBody }: SendOptions = {}
+): Promise<GitHubResponse> {
+  const url = pathOrUrl.startsWith('http')
+    ? pathOrUrl
+    : `${GITHUB_API_URL}${pathOrUrl}`;
+  const isPost = requestBody !== undefined;
+  const cacheKey = `http:${token ? 'auth' : 'anon'}:${url}`;
+  const cached = isPost ? null : await readCache<CachedResponse>(cacheKey);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: isPost ? 'POST' : 'GET',
+      body: isPost ? JSON.stringify(requestBody) : undefined,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        'X-GitHub-Api-Version': API_VERSION,
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        ...(cached?.etag ? { 'If-None-Match': cached.etag } : {}),
+      },
+      signal: controller.signal,
+    });
+  } catch {
+    throw new NetworkError(
+      controller.signal.aborted ? 'Request timed out' : undefined
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  recordRateLimit(response);
+
+  if (response.status === 304 && cached) {
+    return { status: 200, ...cached.data };
+  }
+  if (response.status === 401) {
+    throw new UnauthorizedError();
+  }
+  if (response.status === 404) {
+    throw new NotFoundError(pathOrUrl);
+  }
+  if (isRateLimited(response)) {
+    throw new RateLimitError(rateLimitReset(response));
+  }
+  if (!response.ok) {
+    const body: { message?: string } | null = await response
+      .json()
+      .catch(() => null);
+    throw new ServerError(response.status, body?.message);
+  }
+
+  const raw: unknown =
+    response.status === 204 ? null : await response.json();
+  const body = isPost ? raw : withoutApiLinks(raw);
+  const link = response.headers.get('link');
+  const etag = response.headers.get('etag');
+  if (etag && !isPost && response.status === 200) {
+    await writeCache<CachedResponse>(cacheKey, { body, link }, etag);
+  }
+  return { status: response.status, body, link };
+}
+
+export async function request<T>(path: string): Promise<T> {
+  const response = await send(path);
+  return response.body as T;
+}
+
+interface GraphQLResponse<T> {
+  data: T;
+  errors?: { type?: string; message: string }[];
+}
+
+export async function graphql<T>(
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  const response = await send('/graphql', { body: { query, variables } });
+  const body = response.body as GraphQLResponse<T>;
+  if (body.errors?.length) {
+    const [error] = body.errors;
+    throw error.type === 'NOT_FOUND'
+      ? new NotFoundError('/graphql')
+      : new ServerError(response.status, error.message);
+  }
+  return body.data;
+}
+
+export async function requestPage<T>(pathOrUrl: string): Promise<Page<T>> {
+  const response = await send(pathOrUrl);
+  return {
+    items: response.body as T[],
+    next: parseNextLink(response.link),
+  };
+}
+
+export async function requestAll<T>(path: string): Promise<T[]> {
+  const items: T[] = [];
+  let next: string | null = path;
+  while (next) {
+    const page: Page<T> = await requestPage<T>(next);
+    items.push(...page.items);
+    next = page.next;
+  }
+  return items;
+}
+
+// Checks a token against `/user` without installing it for other requests.
+export async function validateToken(token: string): Promise<GitHubProfile> {
+  const response = await send('/user', { token });
+  return response.body as GitHubProfile;
+}
+
+export const getUser = (username: string) =>
+  request<GitHubProfile>(`/users/${encodeURIComponent(username)}`);
+
+const userReposPath = (username: string) =>
+  `/users/${encodeURIComponent(username)}/repos?per_page=${REPOS_PER_PAGE}`;
+
+// Pass the `next` URL of a previous page to continue where it left off.
+export const getUserReposPage = (username: string, next?: string | null) =>
+  requestPage<Repository>(next ?? userReposPath(username));
+
+export const getAllUserRepos = (username: string) =>
+  requestAll<Repository>(userReposPath(username));
+
+export const isOrganization = (profile: GitHubProfile) =>
+  profile.type === 'Organization';
+
+const orgPath = (org: string) => `/orgs/${encodeURIComponent(org)}`;
+
+export const getOrganization = (org: string) =>
+  request<Organization>(orgPath(org));
+
+// Sorted like the user endpoint; organizations default to creation order.
+const orgReposPath = (org: string, type: OrgRepoType) =>
+  `${orgPath(org)}/repos?type=${type}&sort=full_name` +
+  `&per_page=${REPOS_PER_PAGE}`;
+
+export const getOrgReposPage = (
+  org: string,
+  type: OrgRepoType,
+  next?: string | null
+) => requestPage<Repository>(next ?? orgReposPath(org, type));
+
+export const getAllOrgRepos = (org: string) =>
+  requestAll<Repository>(orgReposPath(org, 'all'));
+
+// Private memberships are only visible to other members, so list public ones.
+export const getOrgMembersPage = (org: string, next?: string | null) =>
+  requestPage<OrgMember>(next ?? `${orgPath(org)}/public_members?per_page=60`);
+
+const repoPath = (owner: string, name: string) =>
+  `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+
+export const getRepo = (owner: string, name: string) =>
+  request<Repository>(repoPath(owner, name));
+
+export const getRepoLanguages = (owner: string, name: string) =>
+  request<Record<string, number>>(`${repoPath(owner, name)}/languages`);
+
+export interface Commit {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: { name: string; date: string } | null;
+  };
+  author: { login: string; avatar_url: string } | null;
+}
+
+export interface Release {
+  id: number;
+  name: string | null;
+  tag_name: string;
+  body: string | null;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+}
+
+export interface WeeklyCommitActivity {
+  // Unix timestamp (seconds) of the start of the week.
+  week: number;
+  total: number;
+  days: number[];
+}
+
+export const getCommitsPage = (
+  owner: string,
+  name: string,
+  next?: string | null
+) =>
+  requestPage<Commit>(next ?? `${repoPath(owner, name)}/commits?per_page=30`);
+
+export const getReleasesPage = (
+  owner: string,
+  name: string,
+  next?: string | null
+) =>
+  requestPage<Release>(next ?? `${repoPath(owner, name)}/releases?per_page=10`);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * GitHub computes repository statistics lazily and answers 202 until they
+ * are ready, so poll a few times before giving up. Giving up throws rather
+ * than returning no weeks, so a cached series isn't replaced with nothing.
+ */
+export async function getCommitActivity(
+  owner: string,
+  name: string,
+  retries = 4
+): Promise<WeeklyCommitActivity[]> {
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const response = await send(
+      `${repoPath(owner, name)}/stats/commit_activity`
+    );
+    if (response.status !== 202) {
+      return Array.isArray(response.body)
+        ? (response.body as WeeklyCommitActivity[])
+        : [];
+    }
+    if (attempt < retries) await wait(1000 * 2 ** attempt);
+  }
+  throw new ServerError(202, 'Commit statistics are still being computed');
+}
+
+export interface Readme {
+  path: string;
+  content: string;
+  encoding: string;
+  html_url: string;
+}
+
+// Decodes the base64 payload of the contents API as UTF-8 text. Files that
+// aren't valid UTF-8 are read byte for byte, which suits Latin-1.
+export const decodeContent = (content: string) => {
+  const binary = atob(content.replace(/\n/g, ''));
+  try {
+    return decodeURIComponent(
+      Array.from(
+        binary,
+        (char) => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')
+      ).join('')
+    );
+  } catch {
+    return binary;
+  }
+};
+
+export const getReadme = (owner: string, name: string) =>
+  request<Readme>(`${repoPath(owner, name)}/readme`);
+
+export interface GitHubEvent {
+  id: string;
+  type: string;
+  actor: { login: string; avatar_url: string };
+  repo: { id: number; name: string };
+  // Shaped by `type`; narrow with `isKnownEvent` before reading it.
+  payload: unknown;
+  created_at: string;
+}
+
+// The payload fields the app reads, per event type. Push and pull request
+// payloads may come trimmed, so their details are optional.
+interface EventPayloads {
+  PushEvent: {
+    ref?: string;
+    size?: number;
+    distinct_size?: number;
+    commits?: { sha: string; message: string }[];
+  };
+  PullRequestEvent: {
+    action: string;
+    number?: number;
+    pull_request: { number: number; title?: string; merged?: boolean };
+  };
+  PullRequestReviewEvent: { action: string };
+  IssuesEvent: { action: string; issue: { number: number; title: string } };
+  ReleaseEvent: { release: { name: string | null; tag_name: string } };
+  CreateEvent: { ref_type: string };
+  WatchEvent: { action: string };
+  ForkEvent: { forkee: { full_name: string } };
+}
+
+export type KnownEvent = {
+  [Type in keyof EventPayloads]: Omit<GitHubEvent, 'type' | 'payload'> & {
+    type: Type;
+    payload: EventPayloads[Type];
+  };
+}[keyof EventPayloads];
+
+const KNOWN_EVENT_TYPES: Record<KnownEvent['type'], true> = {
+  PushEvent: true,
+  PullRequestEvent: true,
+  PullRequestReviewEvent: true,
+  IssuesEvent: true,
+  ReleaseEvent: true,
+  CreateEvent: true,
+  WatchEvent: true,
+  ForkEvent: true,
+};
+
+// Lets a `switch (event.type)` narrow the payload to its type's fields.
+export const isKnownEvent = (event: GitHubEvent): event is KnownEvent =>
+  Object.hasOwn(KNOWN_EVENT_TYPES, event.type);
+
+const userEventsPath = (username: string) =>
+  `/users/${encodeURIComponent(username)}/events/public?per_page=100`;
+
+export const getUserEventsPage = (username: string, next?: string | null) =>
+  requestPage<GitHubEvent>(next ?? userEventsPath(username));
+
+// GitHub only serves the last 90 days, and at most 300 events.
+export const getAllUserEvents = (username: string) =>
+  requestAll<GitHubEvent>(userEventsPath(username));
+
+export interface ContributionDay {
+  date: string;
+  contributionCount: number;
+}
+
+const CONTRIBUTIONS_QUERY = `
+  query ($login: String!) {
+    user(login: $login) {
+      contributionsCollection {
+        contributionCalendar {
+          weeks {
+            contributionDays {
+              date
+              contributionCount
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Full-year contribution calendar; GraphQL requires an access token.
+export async function getContributionCalendar(
+  username: string
+): Promise<ContributionDay[]> {
+  const data = await graphql<{
+    user: {
+      contributionsCollection: {
+        contributionCalendar: {
+          weeks: { contributionDays: ContributionDay[] }[];
+        };
+      };
+    } | null;
+  }>(CONTRIBUTIONS_QUERY, { login: username });
+  if (!data.user) {
+    throw new NotFoundError(`/users/${encodeURIComponent(username)}`);
+  }
+  return data.user.contributionsCollection.contributionCalendar.weeks.flatMap(
+    (week) => week.contributionDays
+  );
+}
+
+export interface Label {
+  id: number;
+  name: string;
+  color: string;
+}
+
+export interface Issue {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  body: string | null;
+  html_url: string;
+  user: { login: string; avatar_url: string };
+  labels: Label[];
+  comments: number;
+  created_at: string;
+  updated_at: string;
+  // Present when the issue is a pull request.
+  pull_request?: { html_url: string; merged_at: string | null };
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  html_url: string;
+  user: { login: string; avatar_url: string };
+  created_at: string;
+}
+
+export type IssueState = 'open' | 'closed' | 'all';
+
+// The issues endpoint returns pull requests as well.
+export const getIssuesPage = (
+  owner: string,
+  name: string,
+  { state, labels }: { state: IssueState; labels: string[] },
+  next?: string | null
+) => {
+  const query = new URLSearchParams({ state, per_page: '30' });
+  if (labels.length) query.set('labels', labels.join(','));
+  return requestPage<Issue>(
+    next ?? `${repoPath(owner, name)}/issues?${query.toString()}`
+  );
+};
+
+export const getIssue = (owner: string, name: string, number: number) =>
+  request<Issue>(`${repoPath(owner, name)}/issues/${number}`);
+
+export const getIssueCommentsPage = (
+  owner: string,
+  name: string,
+  number: number,
+  next?: string | null
+) =>
+  requestPage<IssueComment>(
+    next ?? `${repoPath(owner, name)}/issues/${number}/comments?per_page=30`
+  );
+
+export const getLabels = (owner: string, name: string) =>
+  requestAll<Label>(`${repoPath(owner, name)}/labels?per_page=100`);
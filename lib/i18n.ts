@@ -0,0 +1,64 @@
+import { I18n, type TranslateOptions } from 'i18n-js';
+import { getLocales } from 'expo-localization';
+import { enUS, he as heDateLocale } from 'date-fns/locale';
+import en, { type Translations } from '@/locales/en';
+import he from '@/locales/he';
+
+export type Language = 'en' | 'he';
+
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'he', label: 'עברית' },
+];
+
+const RTL_LANGUAGES: Language[] = ['he'];
+
+const dateLocales: Record<Language, Locale> = {
+  en: enUS,
+  he: heDateLocale,
+};
+
+// Dotted paths to every message, e.g. `profile.topRepositories`. Plural
+// messages ({ one, other }) are addressed as a whole and picked by `count`.
+type MessageKey<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | { other: string }
+    ? `${Prefix}${K}`
+    : MessageKey<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type TranslationKey = MessageKey<Translations>;
+
+const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some((language) => language.value === value);
+
+// Older Android releases still report Hebrew with its legacy `iw` code.
+const normalize = (code: string | null | undefined) =>
+  code === 'iw' ? 'he' : code;
+
+export const detectLanguage = (): Language => {
+  const match = getLocales()
+    .map((locale) => normalize(locale.languageCode))
+    .find(isLanguage);
+  return match ?? 'en';
+};
+
+const i18n = new I18n({ en, he });
+i18n.defaultLocale = 'en';
+i18n.enableFallback = true;
+i18n.locale = detectLanguage();
+
+export const getLanguage = () => i18n.locale as Language;
+
+export const setLanguage = (language: Language) => {
+  i18n.locale = language;
+};
+
+export const isRTL = (language: Language) => RTL_LANGUAGES.includes(language);
+
+export const t = (key: TranslationKey, options?: TranslateOptions) =>
+  i18n.t(key, options);
+
+export type Translate = typeof t;
+
+export const getDateLocale = (language = getLanguage()) =>
+  dateLocales[language];
@@ -0,0 +1,48 @@
+import { getLanguageColor } from '@/constants/languageColors';
+import type { Repository } from '@/lib/github';
+
+export interface LanguageShare {
+  language: string;
+  bytes: number;
+  share: number;
+  color: string;
+}
+
+// Name of the slice the smaller languages are folded into. Kept untranslated
+// in the data; show it as `t('languages.others')`.
+export const OTHER_LANGUAGE = 'Other';
+
+/**
+ * Turns a `{ language: bytes }` map into shares sorted by size. Everything
+ * past `limit` languages is folded into a single "Other" slice.
+ */
+export function toShares(
+  bytesByLanguage: Record<string, number>,
+  limit = 6
+): LanguageShare[] {
+  const entries = Object.entries(bytesByLanguage)
+    .filter(([, bytes]) => bytes > 0)
+    .sort((a, b) => b[1] - a[1]);
+  const total = entries.reduce((acc, [, bytes]) => acc + bytes, 0);
+  if (!total) return [];
+
+  const top = entries.slice(0, limit);
+  const rest = entries.slice(limit).reduce((acc, [, bytes]) => acc + bytes, 0);
+  if (rest) top.push([OTHER_LANGUAGE, rest]);
+
+  return top.map(([language, bytes]) => ({
+    language,
+    bytes,
+    share: bytes / total,
+    color: getLanguageColor(language),
+  }));
+}
+
+// Per-repo language stats would cost one request per repo, so the account
+// view approximates bytes with each source repo's size and primary language.
+export const aggregateLanguages = (repos: Repository[]) =>
+  repos.reduce<Record<string, number>>((acc, repo) => {
+    if (repo.fork || !repo.language) return acc;
+    acc[repo.language] = (acc[repo.language] ?? 0) + Math.max(repo.size, 1);
+    return acc;
+  }, {});
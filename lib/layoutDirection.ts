@@ -0,0 +1,9 @@
+import { I18nManager } from 'react-native';
+
+// Native layout direction is read once at startup, so switching it only takes
+// effect after a restart. Returns whether one is needed.
+export const applyLayoutDirection = (rtl: boolean) => {
+  I18nManager.allowRTL(rtl);
+  I18nManager.forceRTL(rtl);
+  return I18nManager.isRTL !== rtl;
+};
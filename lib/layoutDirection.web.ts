@@ -0,0 +1,7 @@
+// The browser flips layout as soon as the document direction changes.
+export const applyLayoutDirection = (rtl: boolean) => {
+  if (typeof document !== 'undefined') {
+    document.documentElement.dir = rtl ? 'rtl' : 'ltr';
+  }
+  return false;
+};
@@ -0,0 +1,155 @@
+import { marked, type Token } from 'marked';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/components/prism-bash';
+import 'prismjs/components/prism-json';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-yaml';
+import 'prismjs/components/prism-diff';
+
+export type { Token, Tokens } from 'marked';
+
+/** Where a Markdown document lives, used to resolve its relative URLs. */
+export interface MarkdownSource {
+  owner: string;
+  name: string;
+  branch: string;
+  // Path of the document inside the repo, e.g. `docs/README.md`.
+  path: string;
+}
+
+export interface HighlightedSpan {
+  text: string;
+  type: string | null;
+}
+
+export const parseMarkdown = (markdown: string): Token[] =>
+  marked.lexer(markdown, { gfm: true });
+
+const ABSOLUTE_URL = /^[a-z][a-z0-9+.-]*:/i;
+
+// Documents are untrusted: `javascript:` or `data:` URLs must never reach
+// Linking, which opens them in the browser that also holds the token.
+const SAFE_URL = /^(https?|mailto):/i;
+
+/**
+ * Resolves a link or image URL from a document against the repo's default
+ * branch. Images point at the raw file, links at the GitHub file view.
+ * Returns null for URLs with any scheme other than http(s) or mailto.
+ */
+export function resolveUrl(
+  href: string,
+  source: MarkdownSource | undefined,
+  kind: 'link' | 'image'
+): string | null {
+  const url = href.trim();
+  if (url.startsWith('//')) return `https:${url}`;
+  if (ABSOLUTE_URL.test(url)) return SAFE_URL.test(url) ? url : null;
+  // Relative URLs mean nothing without the repo they belong to.
+  if (!source) return null;
+
+  const base =
+    kind === 'image'
+      ? `https://raw.githubusercontent.com/${source.owner}/${source.name}/${source.branch}/`
+      : `https://github.com/${source.owner}/${source.name}/blob/${source.branch}/`;
+  if (url.startsWith('#')) {
+    return `https://github.com/${source.owner}/${source.name}${url}`;
+  }
+
+  const directory = source.path.includes('/')
+    ? source.path.slice(0, source.path.lastIndexOf('/') + 1)
+    : '';
+  const path = url.startsWith('/') ? url.slice(1) : directory + url;
+  return new URL(path, base).toString();
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      // Past the last code point, like browsers, show the replacement
+      // character instead of failing the whole render.
+      if (Number.isNaN(value)) return entity;
+      return value > 0x10ffff ? '\uFFFD' : String.fromCodePoint(value);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Raw HTML is never rendered. Scripts, styles and comments are dropped and
+ * the remaining markup is reduced to its text content.
+ */
+export const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  ).trim();
+
+// `<img>` tags are common in READMEs (centered logos, badges); keep their
+// sources and alt text so they can be shown as regular images.
+export const htmlImages = (html: string) =>
+  [...html.matchAll(/<img\b[^>]*>/gi)].flatMap(([tag]) => {
+    const src = tag.match(/\ssrc=["']([^"']+)["']/i)?.[1];
+    const alt = tag.match(/\salt=["']([^"']*)["']/i)?.[1] ?? '';
+    return src ? [{ src, alt }] : [];
+  });
+
+const flatten = (
+  tokens: (string | Prism.Token)[],
+  parentType: string | null = null
+): HighlightedSpan[] =>
+  tokens.flatMap((token) => {
+    if (typeof token === 'string') {
+      return [{ text: token, type: parentType }];
+    }
+    if (Array.isArray(token.content)) {
+      return flatten(token.content, token.type);
+    }
+    if (typeof token.content === 'string') {
+      return [{ text: token.content, type: token.type }];
+    }
+    return flatten([token.content], token.type);
+  });
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  ts: 'typescript',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  py: 'python',
+  rb: 'ruby',
+  yml: 'yaml',
+  html: 'markup',
+  xml: 'markup',
+};
+
+export function highlight(code: string, lang?: string): HighlightedSpan[] {
+  const language = lang ? LANGUAGE_ALIASES[lang] ?? lang : null;
+  const grammar = language ? Prism.languages[language] : undefined;
+  if (!grammar) {
+    return [{ text: code, type: null }];
+  }
+  return flatten(Prism.tokenize(code, grammar));
+}
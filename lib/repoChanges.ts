@@ -0,0 +1,73 @@
+export type ChangeType = 'stars' | 'release' | 'issue';
+
+export const CHANGE_TYPES: ChangeType[] = ['stars', 'release', 'issue'];
+
+// What background refresh remembers about a watched repo between runs.
+export interface RepoSnapshot {
+  stars: number;
+  release: { id: number; tag: string } | null;
+  issue: { number: number; title: string } | null;
+}
+
+export type RepoChange =
+  | { type: 'stars'; repo: string; gained: number; stars: number }
+  | { type: 'release'; repo: string; tag: string }
+  | { type: 'issue'; repo: string; number: number; title: string };
+
+export interface WatchRule {
+  // `owner/name`
+  repo: string;
+  types: ChangeType[];
+}
+
+// Local hours, 0-23. `start` may be after `end` to span midnight.
+export interface QuietHours {
+  start: number;
+  end: number;
+}
+
+/**
+ * Lists what changed since `previous`. Nothing is reported for a repo seen
+ * for the first time, and losing stars is not news.
+ */
+export function diffSnapshot(
+  repo: string,
+  previous: RepoSnapshot | null,
+  next: RepoSnapshot
+): RepoChange[] {
+  if (!previous) return [];
+  const changes: RepoChange[] = [];
+  if (next.stars > previous.stars) {
+    changes.push({
+      type: 'stars',
+      repo,
+      gained: next.stars - previous.stars,
+      stars: next.stars,
+    });
+  }
+  if (next.release && next.release.id !== previous.release?.id) {
+    changes.push({ type: 'release', repo, tag: next.release.tag });
+  }
+  // Issue numbers only grow, so a lower one means the newest was deleted.
+  if (next.issue && next.issue.number > (previous.issue?.number ?? 0)) {
+    changes.push({
+      type: 'issue',
+      repo,
+      number: next.issue.number,
+      title: next.issue.title,
+    });
+  }
+  return changes;
+}
+
+export const applyRule = (changes: RepoChange[], rule: WatchRule) =>
+  changes.filter((change) => rule.types.includes(change.type));
+
+export function isQuietTime(date: Date, quietHours: QuietHours | null) {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const hour = date.getHours();
+  const { start, end } = quietHours;
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
@@ -0,0 +1,139 @@
+import type { OrgRepoType, Repository } from '@/lib/github';
+import type { TranslationKey } from '@/lib/i18n';
+
+export type RepoSort = 'stars' | 'forks' | 'updated' | 'created' | 'name';
+
+export interface RepoFilters {
+  query: string;
+  language: string | null;
+  topic: string | null;
+  sort: RepoSort;
+  hideForks: boolean;
+  hideArchived: boolean;
+  // Server-side filter, only offered for organizations.
+  type: OrgRepoType;
+}
+
+// Route query params, e.g. `/projects?q=cli&lang=TypeScript&sort=updated`.
+export type RepoFilterParams = {
+  q?: string;
+  lang?: string;
+  topic?: string;
+  sort?: string;
+  hideForks?: string;
+  hideArchived?: string;
+  type?: string;
+};
+
+export const SORT_OPTIONS: { value: RepoSort; label: TranslationKey }[] = [
+  { value: 'stars', label: 'filters.sort.stars' },
+  { value: 'forks', label: 'filters.sort.forks' },
+  { value: 'updated', label: 'filters.sort.updated' },
+  { value: 'created', label: 'filters.sort.created' },
+  { value: 'name', label: 'filters.sort.name' },
+];
+
+export const REPO_TYPE_OPTIONS: {
+  value: OrgRepoType;
+  label: TranslationKey;
+}[] = [
+  { value: 'all', label: 'filters.type.all' },
+  { value: 'public', label: 'filters.type.public' },
+  { value: 'sources', label: 'filters.type.sources' },
+  { value: 'forks', label: 'filters.type.forks' },
+];
+
+export const DEFAULT_FILTERS: RepoFilters = {
+  query: '',
+  language: null,
+  topic: null,
+  sort: 'stars',
+  hideForks: false,
+  hideArchived: false,
+  type: 'all',
+};
+
+const isSort = (value: unknown): value is RepoSort =>
+  SORT_OPTIONS.some((option) => option.value === value);
+
+const isRepoType = (value: unknown): value is OrgRepoType =>
+  REPO_TYPE_OPTIONS.some((option) => option.value === value);
+
+export const filtersFromParams = (params: RepoFilterParams): RepoFilters => ({
+  query: params.q ?? '',
+  language: params.lang || null,
+  topic: params.topic || null,
+  sort: isSort(params.sort) ? params.sort : DEFAULT_FILTERS.sort,
+  hideForks: params.hideForks === '1',
+  hideArchived: params.hideArchived === '1',
+  type: isRepoType(params.type) ? params.type : DEFAULT_FILTERS.type,
+});
+
+// Empty values are kept as `undefined` so they drop out of the URL.
+export const filtersToParams = (filters: RepoFilters): RepoFilterParams => ({
+  q: filters.query || undefined,
+  lang: filters.language ?? undefined,
+  topic: filters.topic ?? undefined,
+  sort: filters.sort === DEFAULT_FILTERS.sort ? undefined : filters.sort,
+  hideForks: filters.hideForks ? '1' : undefined,
+  hideArchived: filters.hideArchived ? '1' : undefined,
+  type: filters.type === DEFAULT_FILTERS.type ? undefined : filters.type,
+});
+
+export const hasFilterParams = (params: RepoFilterParams) =>
+  Object.values(filtersToParams(filtersFromParams(params))).some(
+    (value) => value !== undefined
+  );
+
+const time = (date: string) => new Date(date).getTime();
+
+const comparators: Record<RepoSort, (a: Repository, b: Repository) => number> =
+  {
+    stars: (a, b) => b.stargazers_count - a.stargazers_count,
+    forks: (a, b) => b.forks_count - a.forks_count,
+    updated: (a, b) => time(b.updated_at) - time(a.updated_at),
+    created: (a, b) => time(b.created_at) - time(a.created_at),
+    name: (a, b) => a.name.localeCompare(b.name),
+  };
+
+// The API pages repos in `full_name` order. Any other order, and any filter,
+// is only right once every page is loaded.
+export const needsEveryRepo = (filters: RepoFilters) =>
+  filters.sort !== 'name' ||
+  !!filters.query.trim() ||
+  !!filters.language ||
+  !!filters.topic ||
+  filters.hideForks ||
+  filters.hideArchived;
+
+export function applyFilters(repos: Repository[], filters: RepoFilters) {
+  const query = filters.query.trim().toLowerCase();
+
+  return repos
+    .filter((repo) => {
+      if (filters.hideForks && repo.fork) return false;
+      if (filters.hideArchived && repo.archived) return false;
+      if (filters.language && repo.language !== filters.language) return false;
+      if (filters.topic && !repo.topics?.includes(filters.topic)) return false;
+      if (!query) return true;
+      return [repo.name, repo.description ?? '', ...(repo.topics ?? [])].some(
+        (field) => field.toLowerCase().includes(query)
+      );
+    })
+    .sort(comparators[filters.sort]);
+}
+
+// Distinct values present in the loaded repos, most common first.
+const facet = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([value]) => value);
+};
+
+export const languagesOf = (repos: Repository[]) =>
+  facet(repos.flatMap((repo) => (repo.language ? [repo.language] : [])));
+
+export const topicsOf = (repos: Repository[]) =>
+  facet(repos.flatMap((repo) => repo.topics ?? []));
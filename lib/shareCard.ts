@@ -0,0 +1,303 @@
+import type { ThemeColors } from '@/constants/theme';
+import { t, type TranslationKey } from '@/lib/i18n';
+import { OTHER_LANGUAGE, type LanguageShare } from '@/lib/languages';
+
+export type CardTemplate = 'landscape' | 'square';
+
+export const CARD_TEMPLATES: {
+  value: CardTemplate;
+  label: TranslationKey;
+}[] = [
+  { value: 'landscape', label: 'shareCard.templates.landscape' },
+  { value: 'square', label: 'shareCard.templates.square' },
+];
+
+export interface CardData {
+  name: string;
+  login: string;
+  bio: string | null;
+  // A data URI: remote images are not loaded when an SVG is drawn to a
+  // canvas, and the exported file should not depend on GitHub being up.
+  avatar: string | null;
+  repos: number;
+  followers: number;
+  stars: number;
+  languages: LanguageShare[];
+  topRepos: { name: string; stars: number }[];
+}
+
+export interface RenderedCard {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface TextOptions {
+  size: number;
+  fill: string;
+  anchor?: 'start' | 'middle' | 'end';
+  bold?: boolean;
+}
+
+const FONT = '-apple-system, Segoe UI, Helvetica, Arial, sans-serif';
+
+const escape = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// SVG text doesn't wrap or ellipsize, so long strings are cut by length.
+const truncate = (value: string, max: number) =>
+  value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+
+const text = (
+  x: number,
+  y: number,
+  content: string,
+  { size, fill, anchor = 'start', bold = false }: TextOptions
+) =>
+  `<text x="${x}" y="${y}" font-family="${FONT}" font-size="${size}" ` +
+  `fill="${fill}" text-anchor="${anchor}"` +
+  `${bold ? ' font-weight="bold"' : ''}>${escape(content)}</text>`;
+
+function avatar(
+  data: CardData,
+  colors: ThemeColors,
+  x: number,
+  y: number,
+  size: number
+) {
+  const r = size / 2;
+  if (!data.avatar) {
+    return (
+      `<circle cx="${x + r}" cy="${y + r}" r="${r}" ` +
+      `fill="${colors.primary}"/>` +
+      text(x + r, y + r + size / 6, data.login[0]?.toUpperCase() ?? '', {
+        size: r,
+        fill: colors.onPrimary,
+        anchor: 'middle',
+        bold: true,
+      })
+    );
+  }
+  return (
+    `<clipPath id="avatar"><circle cx="${x + r}" cy="${y + r}" r="${r}"/>` +
+    `</clipPath><image href="${data.avatar}" x="${x}" y="${y}" ` +
+    `width="${size}" height="${size}" clip-path="url(#avatar)"/>`
+  );
+}
+
+function stats(
+  data: CardData,
+  colors: ThemeColors,
+  x: number,
+  y: number,
+  width: number
+) {
+  const gap = 30;
+  const boxWidth = (width - gap * 2) / 3;
+  const items: [number, TranslationKey][] = [
+    [data.repos, 'profile.repositories'],
+    [data.followers, 'profile.followers'],
+    [data.stars, 'profile.totalStars'],
+  ];
+  return items
+    .map(([value, label], index) => {
+      const left = x + index * (boxWidth + gap);
+      const center = left + boxWidth / 2;
+      return (
+        `<rect x="${left}" y="${y}" width="${boxWidth}" height="110" ` +
+        `rx="16" fill="${colors.surface}"/>` +
+        text(center, y + 56, value.toLocaleString(), {
+          size: 42,
+          fill: colors.text,
+          anchor: 'middle',
+          bold: true,
+        }) +
+        text(center, y + 90, t(label), {
+          size: 20,
+          fill: colors.textMuted,
+          anchor: 'middle',
+        })
+      );
+    })
+    .join('');
+}
+
+function languages(
+  data: CardData,
+  colors: ThemeColors,
+  x: number,
+  y: number,
+  width: number
+) {
+  const shares = data.languages.slice(0, 4);
+  if (!shares.length) return '';
+  let offset = x;
+  const bar = shares
+    .map((share) => {
+      const segment =
+        `<rect x="${offset}" y="${y + 20}" width="${share.share * width}" ` +
+        `height="14" fill="${share.color}"/>`;
+      offset += share.share * width;
+      return segment;
+    })
+    .join('');
+  // Two legend columns.
+  const columnWidth = width / 2;
+  const legend = shares
+    .map((share, index) => {
+      const left = x + (index % 2) * columnWidth;
+      const top = y + 72 + Math.floor(index / 2) * 36;
+      const percent = Math.round(share.share * 100);
+      const name =
+        share.language === OTHER_LANGUAGE
+          ? t('languages.others')
+          : share.language;
+      return (
+        `<circle cx="${left + 8}" cy="${top - 7}" r="8" ` +
+        `fill="${share.color}"/>` +
+        text(left + 26, top, `${truncate(name, 14)} ${percent}%`, {
+          size: 22,
+          fill: colors.textMuted,
+        })
+      );
+    })
+    .join('');
+  return (
+    text(x, y, t('profile.languages'), {
+      size: 26,
+      fill: colors.text,
+      bold: true,
+    }) +
+    `<clipPath id="bar"><rect x="${x}" y="${y + 20}" width="${width}" ` +
+    `height="14" rx="7"/></clipPath><g clip-path="url(#bar)">${bar}</g>` +
+    legend
+  );
+}
+
+function topRepos(
+  data: CardData,
+  colors: ThemeColors,
+  x: number,
+  y: number,
+  width: number
+) {
+  if (!data.topRepos.length) return '';
+  const rows = data.topRepos
+    .slice(0, 3)
+    .map((repo, index) => {
+      const top = y + 50 + index * 46;
+      return (
+        text(x, top, truncate(repo.name, Math.floor(width / 16)), {
+          size: 24,
+          fill: colors.link,
+        }) +
+        text(x + width, top, `★ ${repo.stars.toLocaleString()}`, {
+          size: 22,
+          fill: colors.star,
+          anchor: 'end',
+        })
+      );
+    })
+    .join('');
+  return (
+    text(x, y, t('profile.topRepositories'), {
+      size: 26,
+      fill: colors.text,
+      bold: true,
+    }) + rows
+  );
+}
+
+function header(
+  data: CardData,
+  colors: ThemeColors,
+  x: number,
+  y: number,
+  anchor: 'start' | 'middle'
+) {
+  return (
+    text(x, y, truncate(data.name, 30), {
+      size: 52,
+      fill: colors.text,
+      anchor,
+      bold: true,
+    }) +
+    text(x, y + 48, `@${data.login}`, {
+      size: 26,
+      fill: colors.textMuted,
+      anchor,
+    }) +
+    (data.bio
+      ? text(x, y + 92, truncate(data.bio, 64), {
+          size: 22,
+          fill: colors.textMuted,
+          anchor,
+        })
+      : '')
+  );
+}
+
+const svgDocument = (
+  width: number,
+  height: number,
+  colors: ThemeColors,
+  body: string
+): RenderedCard => ({
+  svg:
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+    `height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<rect width="${width}" height="${height}" rx="32" ` +
+    `fill="${colors.background}"/>${body}</svg>`,
+  width,
+  height,
+});
+
+/** Lays out the profile card as a standalone SVG document. */
+export function renderCard(
+  data: CardData,
+  template: CardTemplate,
+  colors: ThemeColors
+): RenderedCard {
+  if (template === 'square') {
+    return svgDocument(
+      1080,
+      1080,
+      colors,
+      avatar(data, colors, 440, 70, 200) +
+        header(data, colors, 540, 340, 'middle') +
+        stats(data, colors, 60, 490, 960) +
+        languages(data, colors, 60, 680, 960) +
+        topRepos(data, colors, 60, 860, 960)
+    );
+  }
+  return svgDocument(
+    1200,
+    630,
+    colors,
+    avatar(data, colors, 60, 60, 140) +
+      header(data, colors, 230, 110, 'start') +
+      stats(data, colors, 60, 240, 1080) +
+      languages(data, colors, 60, 410, 500) +
+      topRepos(data, colors, 620, 410, 520)
+  );
+}
+
+export async function loadAvatarDataUri(url: string) {
+  try {
+    const response = await fetch(url);
+    const blob = await response.blob();
+    return await new Promise<string | null>((resolve) => {
+      const reader = new FileReader();
+      reader.onloadend = () =>
+        resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => resolve(null);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  getAllUserRepos,
+  getUser,
+  setAuthToken,
+  type GitHubProfile,
+  type Repository,
+} from '@/lib/github';
+
+/**
+ * Data for statically rendered web pages. `expo export` evaluates every
+ * route's `generateStaticParams` before it renders any HTML, so the repo
+ * route loads it there and each page seeds its queries with it. `+html.tsx`
+ * embeds it in every page and the browser reads it back before its first
+ * render, which then matches the exported markup. In the native app it
+ * stays empty.
+ */
+let profile: GitHubProfile | null = null;
+let repos: Repository[] = [];
+let loading: Promise<void> | null = null;
+
+// Id of the JSON <script> that carries the data to the browser.
+export const STATIC_DATA_ID = 'static-data';
+
+interface StaticData {
+  profile: GitHubProfile | null;
+  repos: Repository[];
+}
+
+// The API returns far more fields than the app reads, and every page
+// embeds the whole list.
+const REPO_FIELDS: (keyof Repository)[] = [
+  'id',
+  'name',
+  'full_name',
+  'description',
+  'html_url',
+  'language',
+  'stargazers_count',
+  'forks_count',
+  'open_issues_count',
+  'topics',
+  'fork',
+  'archived',
+  'default_branch',
+  'size',
+  'created_at',
+  'updated_at',
+  'pushed_at',
+];
+
+const pickRepoFields = (repo: Repository) => ({
+  ...Object.fromEntries(REPO_FIELDS.map((field) => [field, repo[field]])),
+  owner: { login: repo.owner.login, avatar_url: repo.owner.avatar_url },
+});
+
+if (typeof document !== 'undefined') {
+  const embedded = document.getElementById(STATIC_DATA_ID)?.textContent;
+  if (embedded) {
+    try {
+      ({ profile, repos } = JSON.parse(embedded) as StaticData);
+    } catch {
+      // A page without usable data renders from the live API instead.
+    }
+  }
+}
+
+export function loadStaticData(username: string) {
+  // Optional, to lift the anonymous rate limit during large exports. Only
+  // read on the export machine; it never reaches the client bundle.
+  if (process.env.GITHUB_TOKEN) setAuthToken(process.env.GITHUB_TOKEN);
+  loading ??= Promise.all([getUser(username), getAllUserRepos(username)])
+    .then(([user, list]) => {
+      profile = user;
+      repos = list;
+    })
+    .catch((err) => {
+      // Pages still export, just with generic metadata.
+      console.warn(`Could not load static data for ${username}:`, err);
+    });
+  return loading;
+}
+
+/**
+ * JSON for the page's data <script>, or `null` when there is nothing to
+ * send. `<` is escaped so a repo description can't close the script early.
+ */
+export function serializeStaticData() {
+  if (!profile) return null;
+  return JSON.stringify({
+    profile,
+    repos: repos.map(pickRepoFields),
+  }).replace(/</g, '\\u003c');
+}
+
+export const getStaticRepos = () => repos;
+
+// The data belongs to the exported account; any other account starts empty.
+export const getStaticAccount = (username: string) =>
+  profile && profile.login.toLowerCase() === username.toLowerCase()
+    ? { profile, repos }
+    : null;
+
+export const getStaticRepo = (owner: string, name: string) =>
+  repos.find(
+    (repo) =>
+      repo.owner.login.toLowerCase() === owner.toLowerCase() &&
+      repo.name.toLowerCase() === name.toLowerCase()
+  ) ?? null;
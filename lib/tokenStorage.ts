@@ -0,0 +1,10 @@
+import * as SecureStore from 'expo-secure-store';
+
+const TOKEN_KEY = 'github.personalAccessToken';
+
+export const loadToken = () => SecureStore.getItemAsync(TOKEN_KEY);
+
+export const saveToken = (token: string) =>
+  SecureStore.setItemAsync(TOKEN_KEY, token);
+
+export const clearToken = () => SecureStore.deleteItemAsync(TOKEN_KEY);
@@ -0,0 +1,16 @@
+// SecureStore has no web implementation, so the token lives in localStorage
+// under a key scoped to this app and never leaves the current origin.
+const TOKEN_KEY = 'idan-dayani-github-fyi:github.personalAccessToken';
+
+const storage = () =>
+  typeof window === 'undefined' ? null : window.localStorage;
+
+export const loadToken = async () => storage()?.getItem(TOKEN_KEY) ?? null;
+
+export const saveToken = async (token: string) => {
+  storage()?.setItem(TOKEN_KEY, token);
+};
+
+export const clearToken = async () => {
+  storage()?.removeItem(TOKEN_KEY);
+};
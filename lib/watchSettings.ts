@@ -0,0 +1,44 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { QuietHours, RepoSnapshot, WatchRule } from '@/lib/repoChanges';
+
+const WATCH_SETTINGS_KEY = 'settings.watch';
+const SNAPSHOTS_KEY = 'watch.snapshots';
+
+export interface WatchSettings {
+  enabled: boolean;
+  quietHours: QuietHours | null;
+  rules: WatchRule[];
+}
+
+export const DEFAULT_WATCH_SETTINGS: WatchSettings = {
+  enabled: false,
+  quietHours: null,
+  rules: [],
+};
+
+// Read by the background task as well, which runs without React.
+export async function loadWatchSettings(): Promise<WatchSettings> {
+  try {
+    const raw = await AsyncStorage.getItem(WATCH_SETTINGS_KEY);
+    return raw
+      ? { ...DEFAULT_WATCH_SETTINGS, ...JSON.parse(raw) }
+      : DEFAULT_WATCH_SETTINGS;
+  } catch {
+    return DEFAULT_WATCH_SETTINGS;
+  }
+}
+
+export const saveWatchSettings = (settings: WatchSettings) =>
+  AsyncStorage.setItem(WATCH_SETTINGS_KEY, JSON.stringify(settings));
+
+export async function loadSnapshots(): Promise<Record<string, RepoSnapshot>> {
+  try {
+    const raw = await AsyncStorage.getItem(SNAPSHOTS_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export const saveSnapshots = (snapshots: Record<string, RepoSnapshot>) =>
+  AsyncStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
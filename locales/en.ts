@@ -0,0 +1,303 @@
+const en = {
+  common: {
+    loading: 'Loading...',
+    retry: 'Retry',
+    notAvailable: 'N/A',
+    unknown: 'unknown',
+    created: 'Created %{time}',
+    updated: 'Updated %{time}',
+    lastUpdated: 'Last updated %{time}',
+    viewOnGitHub: 'View on GitHub',
+    openOnGitHub: 'Open on GitHub',
+  },
+  tabs: {
+    profile: 'Profile',
+    projects: 'Projects',
+    activity: 'Activity',
+  },
+  errors: {
+    rateLimited: 'GitHub rate limit reached. Try again after %{time}.',
+    notFound: 'This could not be found on GitHub.',
+    accountNotFound: 'This GitHub account does not exist.',
+    repoNotFound: 'This repository does not exist or is private.',
+    unauthorized: 'Your access token was rejected. Update it in Settings.',
+    offline: 'You appear to be offline. Check your connection.',
+    server: 'GitHub is having trouble right now.',
+  },
+  sync: {
+    lastSynced: 'Last synced %{time}',
+    offlineLastSynced: 'Offline · Last synced %{time}',
+  },
+  profile: {
+    loadFailed: 'Failed to load profile data',
+    repositories: 'Repositories',
+    followers: 'Followers',
+    totalStars: 'Total Stars',
+    contributionActivity: 'Contribution Activity',
+    languages: 'Languages',
+    topRepositories: 'Top Repositories',
+    pinnedRepositories: 'Pinned Repositories',
+    follow: 'Follow on GitHub',
+  },
+  languages: {
+    others: 'Other',
+    count: {
+      one: 'language',
+      other: 'languages',
+    },
+  },
+  org: {
+    verified: 'Verified',
+    members: 'Members',
+    seeAll: 'See all',
+    membersLoadFailed: 'Failed to load members',
+    noMembers: 'This organization has no public members',
+  },
+  collections: {
+    title: 'Collections',
+    pinned: 'Pinned',
+    noPinned: 'Pin a repository from its detail page to keep it here.',
+    newPlaceholder: 'New collection name',
+    empty: 'No repositories in this collection yet',
+    delete: 'Delete',
+    export: 'Export',
+    import: 'Import',
+    importPlaceholder: 'Paste an exported JSON file here',
+    importFailed: "That doesn't look like a collections export",
+    imported: 'Collections imported',
+    addTo: 'Collections',
+    manage: 'Manage collections',
+  },
+  notifications: {
+    title: 'Notifications',
+    off: 'Off',
+    on: 'On',
+    permissionDenied: 'Allow notifications in system settings first.',
+    unavailable: 'Background refresh is not available on this device.',
+    hint: "Pick what to watch from a repository's page.",
+    quietHours: 'Quiet hours',
+    watch: 'Notify me about',
+    enableHint: 'Turn on notifications in Settings to get these.',
+    types: {
+      stars: 'New stars',
+      release: 'New releases',
+      issue: 'New issues',
+    },
+    stars: {
+      one: '%{repo} gained a star',
+      other: '%{repo} gained %{count} stars',
+    },
+    starsTotal: {
+      one: '1 star in total',
+      other: '%{count} stars in total',
+    },
+    release: '%{repo} published a new release',
+    issue: 'New issue #%{number} in %{repo}',
+  },
+  shareCard: {
+    title: 'Share card',
+    templates: {
+      landscape: 'Landscape',
+      square: 'Square',
+    },
+    failed: "Couldn't export the card. Try again.",
+  },
+  contributions: {
+    total: 'Contributions',
+    currentStreak: 'Current streak',
+    longestStreak: 'Longest streak',
+    onDay: {
+      one: '%{count} contribution on %{date}',
+      other: '%{count} contributions on %{date}',
+    },
+    hint: 'Tap a day to see its contributions',
+  },
+  projects: {
+    loading: 'Loading repositories...',
+    loadFailed: 'Failed to load repositories',
+    title: 'All Repositories',
+    empty: 'No repositories match your filters',
+    selectRepo: 'Select a repository to see its details',
+  },
+  filters: {
+    searchPlaceholder: 'Search name, description or topic',
+    hideForks: 'Hide forks',
+    hideArchived: 'Hide archived',
+    type: {
+      all: 'All types',
+      public: 'Public',
+      sources: 'Sources',
+      forks: 'Forks',
+    },
+    sort: {
+      stars: 'Stars',
+      forks: 'Forks',
+      updated: 'Recently updated',
+      created: 'Created',
+      name: 'Name',
+    },
+  },
+  activity: {
+    loading: 'Loading activity...',
+    loadFailed: 'Failed to load activity',
+    title: 'Recent Activity',
+    empty: 'No public activity in the last 90 days',
+    today: 'Today',
+    yesterday: 'Yesterday',
+    pushed: {
+      one: 'Pushed %{count} commit to %{branch}',
+      other: 'Pushed %{count} commits to %{branch}',
+    },
+    pushedNew: 'Pushed new commits to %{branch}',
+    pullRequest: {
+      opened: 'Opened pull request #%{number}',
+      closed: 'Closed pull request #%{number}',
+      reopened: 'Reopened pull request #%{number}',
+      merged: 'Merged pull request #%{number}',
+      updated: 'Updated pull request #%{number}',
+    },
+    issue: {
+      opened: 'Opened issue #%{number}',
+      closed: 'Closed issue #%{number}',
+      reopened: 'Reopened issue #%{number}',
+      updated: 'Updated issue #%{number}',
+    },
+    released: 'Released %{name}',
+    starred: 'Starred',
+    forked: 'Forked to %{forkee}',
+  },
+  repo: {
+    loading: 'Loading repository...',
+    loadFailed: 'Failed to load repository',
+    noDescription: 'No description available',
+    stars: 'Stars',
+    forks: 'Forks',
+    issues: 'Issues',
+    languages: 'Languages',
+    topics: 'Topics',
+    readme: 'README',
+    readmeLoading: 'Loading README...',
+    readmeFailed: 'Failed to load README',
+    readmeMissing: 'This repository has no README',
+    tabs: {
+      overview: 'Overview',
+      commits: 'Commits',
+      releases: 'Releases',
+    },
+    commitsInLastYear: {
+      one: '%{count} commit in the last year',
+      other: '%{count} commits in the last year',
+    },
+    loadMoreCommits: 'Load more commits',
+    noReleases: 'This repository has no releases',
+    preRelease: 'Pre-release',
+    loadMoreReleases: 'Load more releases',
+  },
+  issues: {
+    title: 'Issues & Pull Requests',
+    loadFailed: 'Failed to load issues',
+    empty: 'Nothing matches these filters',
+    state: {
+      open: 'Open',
+      closed: 'Closed',
+      all: 'All',
+      merged: 'Merged',
+    },
+    type: {
+      all: 'Issues & PRs',
+      issues: 'Issues',
+      pulls: 'Pull requests',
+    },
+    opened: '#%{number} opened %{time} by %{author}',
+    issueLoadFailed: 'Failed to load issue',
+    noDescription: 'No description provided.',
+    loadMoreComments: 'Load more comments',
+  },
+  compare: {
+    title: 'Compare users',
+    addPlaceholder: 'Add a GitHub username',
+    needMore: 'Add two to %{max} usernames to compare them side by side.',
+    loadFailed: 'Failed to load these users',
+    shareMessage: 'Compare %{users} on GitHub: %{url}',
+    repositories: 'Repositories',
+    followers: 'Followers',
+    following: 'Following',
+    totalStars: 'Total Stars',
+    topLanguages: 'Top languages',
+    topRepositories: 'Top repositories',
+    noRepos: 'No public repositories',
+  },
+  settings: {
+    title: 'Settings',
+    username: 'GitHub username',
+    usernameHint: 'Leave empty to use the default (%{username}).',
+    appearance: 'Appearance',
+    theme: {
+      system: 'System',
+      light: 'Light',
+      dark: 'Dark',
+    },
+    language: 'Language',
+    languageSystem: 'System',
+    restartHint: 'Restart the app to switch the layout direction.',
+    token: 'Personal access token',
+    signedInAs: 'Signed in as %{login}',
+    remove: 'Remove',
+    removeFailed: 'Could not remove the token, try again',
+    tokenRejected: 'GitHub rejected this token',
+    tokenFailed: 'Could not validate the token, try again',
+    validateToken: 'Validate & save token',
+    rateLimit:
+      'API budget: %{remaining}/%{limit} requests, resets in %{time}',
+    save: 'Save',
+  },
+  seo: {
+    profileDescription:
+      '%{name} on GitHub: %{repos} public repos and %{followers} followers.',
+    projectsDescription:
+      'Public repositories by %{name} on GitHub, with languages and topics.',
+    repoDescription: '%{name} on GitHub: %{stars} stars and %{forks} forks.',
+  },
+  a11y: {
+    back: 'Go back',
+    close: 'Close',
+    pin: 'Pin repository',
+    unpin: 'Unpin repository',
+    shareCard: 'Share profile card',
+    compare: 'Compare with other users',
+    collections: 'Open collections',
+    stat: '%{value} %{label}',
+    stars: {
+      one: '1 star',
+      other: '%{count} stars',
+    },
+    openRepo: 'Opens the repository details',
+    showRepo: 'Shows the repository in the details pane',
+    openInBrowser: 'Opens GitHub in the browser',
+    member: '%{login} on GitHub',
+    commit: 'Commit %{sha} by %{author}: %{message}',
+    release: 'Release %{name}',
+    importCollections: 'Import collections',
+    exportCollections: 'Export collections',
+    createCollection: 'Create collection',
+    deleteCollection: 'Delete collection %{name}',
+    remove: 'Remove %{repo}',
+    addUser: 'Add user',
+    shareComparison: 'Share comparison',
+    contributionCalendar: {
+      one: 'Contribution calendar: 1 contribution in the last %{weeks} weeks',
+      other:
+        'Contribution calendar: %{count} contributions in the last %{weeks} weeks',
+    },
+    busiestDay: 'Most active: %{day}',
+  },
+  notFound: {
+    title: 'Oops!',
+    message: "This screen doesn't exist.",
+    home: 'Go to home screen!',
+  },
+};
+
+export type Translations = typeof en;
+
+export default en;
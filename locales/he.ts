@@ -0,0 +1,301 @@
+import type { Translations } from '@/locales/en';
+
+const he: Translations = {
+  common: {
+    loading: 'טוען...',
+    retry: 'נסו שוב',
+    notAvailable: 'לא זמין',
+    unknown: 'לא ידוע',
+    created: 'נוצר %{time}',
+    updated: 'עודכן %{time}',
+    lastUpdated: 'עודכן לאחרונה %{time}',
+    viewOnGitHub: 'צפייה ב-GitHub',
+    openOnGitHub: 'פתיחה ב-GitHub',
+  },
+  tabs: {
+    profile: 'פרופיל',
+    projects: 'פרויקטים',
+    activity: 'פעילות',
+  },
+  errors: {
+    rateLimited: 'הגעתם למגבלת הבקשות של GitHub. נסו שוב אחרי %{time}.',
+    notFound: 'הפריט לא נמצא ב-GitHub.',
+    accountNotFound: 'חשבון GitHub זה לא קיים.',
+    repoNotFound: 'המאגר הזה לא קיים או שהוא פרטי.',
+    unauthorized: 'אסימון הגישה נדחה. עדכנו אותו בהגדרות.',
+    offline: 'נראה שאין חיבור לאינטרנט. בדקו את החיבור.',
+    server: 'ל-GitHub יש כרגע תקלה.',
+  },
+  sync: {
+    lastSynced: 'סונכרן לאחרונה %{time}',
+    offlineLastSynced: 'לא מחובר · סונכרן לאחרונה %{time}',
+  },
+  profile: {
+    loadFailed: 'טעינת נתוני הפרופיל נכשלה',
+    repositories: 'מאגרים',
+    followers: 'עוקבים',
+    totalStars: 'סך הכוכבים',
+    contributionActivity: 'פעילות תרומות',
+    languages: 'שפות',
+    topRepositories: 'מאגרים מובילים',
+    pinnedRepositories: 'מאגרים מוצמדים',
+    follow: 'מעקב ב-GitHub',
+  },
+  languages: {
+    others: 'אחר',
+    count: {
+      one: 'שפה',
+      other: 'שפות',
+    },
+  },
+  org: {
+    verified: 'מאומת',
+    members: 'חברים',
+    seeAll: 'הצגת הכול',
+    membersLoadFailed: 'טעינת החברים נכשלה',
+    noMembers: 'לארגון זה אין חברים ציבוריים',
+  },
+  collections: {
+    title: 'אוספים',
+    pinned: 'מוצמדים',
+    noPinned: 'הצמידו מאגר מעמוד הפרטים שלו כדי לשמור אותו כאן.',
+    newPlaceholder: 'שם לאוסף חדש',
+    empty: 'אין עדיין מאגרים באוסף הזה',
+    delete: 'מחיקה',
+    export: 'ייצוא',
+    import: 'ייבוא',
+    importPlaceholder: 'הדביקו כאן קובץ JSON שיוצא',
+    importFailed: 'זה לא נראה כמו ייצוא של אוספים',
+    imported: 'האוספים יובאו',
+    addTo: 'אוספים',
+    manage: 'ניהול אוספים',
+  },
+  notifications: {
+    title: 'התראות',
+    off: 'כבוי',
+    on: 'פעיל',
+    permissionDenied: 'אפשרו קודם התראות בהגדרות המערכת.',
+    unavailable: 'רענון ברקע אינו זמין במכשיר הזה.',
+    hint: 'בחרו מה לעקוב אחריו מעמוד המאגר.',
+    quietHours: 'שעות שקט',
+    watch: 'עדכנו אותי על',
+    enableHint: 'הפעילו התראות בהגדרות כדי לקבל אותן.',
+    types: {
+      stars: 'כוכבים חדשים',
+      release: 'גרסאות חדשות',
+      issue: 'סוגיות חדשות',
+    },
+    stars: {
+      one: '%{repo} קיבל כוכב',
+      other: '%{repo} קיבל %{count} כוכבים',
+    },
+    starsTotal: {
+      one: 'כוכב אחד בסך הכול',
+      other: '%{count} כוכבים בסך הכול',
+    },
+    release: '%{repo} פרסם גרסה חדשה',
+    issue: 'סוגיה חדשה #%{number} ב-%{repo}',
+  },
+  shareCard: {
+    title: 'כרטיס לשיתוף',
+    templates: {
+      landscape: 'לרוחב',
+      square: 'ריבועי',
+    },
+    failed: 'ייצוא הכרטיס נכשל. נסו שוב.',
+  },
+  contributions: {
+    total: 'תרומות',
+    currentStreak: 'רצף נוכחי',
+    longestStreak: 'הרצף הארוך ביותר',
+    onDay: {
+      one: 'תרומה אחת ב-%{date}',
+      other: '%{count} תרומות ב-%{date}',
+    },
+    hint: 'הקישו על יום כדי לראות את התרומות בו',
+  },
+  projects: {
+    loading: 'טוען מאגרים...',
+    loadFailed: 'טעינת המאגרים נכשלה',
+    title: 'כל המאגרים',
+    empty: 'אין מאגרים שתואמים את הסינון',
+    selectRepo: 'בחרו מאגר כדי לראות את פרטיו',
+  },
+  filters: {
+    searchPlaceholder: 'חיפוש לפי שם, תיאור או נושא',
+    hideForks: 'הסתרת פיצולים',
+    hideArchived: 'הסתרת ארכיון',
+    type: {
+      all: 'כל הסוגים',
+      public: 'ציבוריים',
+      sources: 'מקור',
+      forks: 'פיצולים',
+    },
+    sort: {
+      stars: 'כוכבים',
+      forks: 'פיצולים',
+      updated: 'עודכנו לאחרונה',
+      created: 'תאריך יצירה',
+      name: 'שם',
+    },
+  },
+  activity: {
+    loading: 'טוען פעילות...',
+    loadFailed: 'טעינת הפעילות נכשלה',
+    title: 'פעילות אחרונה',
+    empty: 'אין פעילות ציבורית ב-90 הימים האחרונים',
+    today: 'היום',
+    yesterday: 'אתמול',
+    pushed: {
+      one: 'דחף קומיט אחד ל-%{branch}',
+      other: 'דחף %{count} קומיטים ל-%{branch}',
+    },
+    pushedNew: 'דחף קומיטים חדשים ל-%{branch}',
+    pullRequest: {
+      opened: 'פתח בקשת מיזוג #%{number}',
+      closed: 'סגר בקשת מיזוג #%{number}',
+      reopened: 'פתח מחדש בקשת מיזוג #%{number}',
+      merged: 'מיזג בקשת מיזוג #%{number}',
+      updated: 'עדכן בקשת מיזוג #%{number}',
+    },
+    issue: {
+      opened: 'פתח סוגיה #%{number}',
+      closed: 'סגר סוגיה #%{number}',
+      reopened: 'פתח מחדש סוגיה #%{number}',
+      updated: 'עדכן סוגיה #%{number}',
+    },
+    released: 'פרסם גרסה %{name}',
+    starred: 'סימן בכוכב',
+    forked: 'פיצל אל %{forkee}',
+  },
+  repo: {
+    loading: 'טוען מאגר...',
+    loadFailed: 'טעינת המאגר נכשלה',
+    noDescription: 'אין תיאור',
+    stars: 'כוכבים',
+    forks: 'פיצולים',
+    issues: 'סוגיות',
+    languages: 'שפות',
+    topics: 'נושאים',
+    readme: 'README',
+    readmeLoading: 'טוען README...',
+    readmeFailed: 'טעינת ה-README נכשלה',
+    readmeMissing: 'למאגר זה אין README',
+    tabs: {
+      overview: 'סקירה',
+      commits: 'קומיטים',
+      releases: 'גרסאות',
+    },
+    commitsInLastYear: {
+      one: 'קומיט אחד בשנה האחרונה',
+      other: '%{count} קומיטים בשנה האחרונה',
+    },
+    loadMoreCommits: 'טעינת קומיטים נוספים',
+    noReleases: 'למאגר זה אין גרסאות',
+    preRelease: 'גרסת טרום-הפצה',
+    loadMoreReleases: 'טעינת גרסאות נוספות',
+  },
+  issues: {
+    title: 'סוגיות ובקשות מיזוג',
+    loadFailed: 'טעינת הסוגיות נכשלה',
+    empty: 'אין תוצאות שתואמות את הסינון',
+    state: {
+      open: 'פתוחות',
+      closed: 'סגורות',
+      all: 'הכול',
+      merged: 'מוזגה',
+    },
+    type: {
+      all: 'סוגיות ובקשות מיזוג',
+      issues: 'סוגיות',
+      pulls: 'בקשות מיזוג',
+    },
+    opened: '#%{number} נפתחה %{time} על ידי %{author}',
+    issueLoadFailed: 'טעינת הסוגיה נכשלה',
+    noDescription: 'לא סופק תיאור.',
+    loadMoreComments: 'טעינת תגובות נוספות',
+  },
+  compare: {
+    title: 'השוואת משתמשים',
+    addPlaceholder: 'הוספת שם משתמש ב-GitHub',
+    needMore: 'הוסיפו בין שניים ל-%{max} שמות משתמש כדי להשוות ביניהם.',
+    loadFailed: 'טעינת המשתמשים נכשלה',
+    shareMessage: 'השוואה בין %{users} ב-GitHub: %{url}',
+    repositories: 'מאגרים',
+    followers: 'עוקבים',
+    following: 'נעקבים',
+    totalStars: 'סך הכוכבים',
+    topLanguages: 'שפות מובילות',
+    topRepositories: 'מאגרים מובילים',
+    noRepos: 'אין מאגרים ציבוריים',
+  },
+  settings: {
+    title: 'הגדרות',
+    username: 'שם משתמש ב-GitHub',
+    usernameHint: 'השאירו ריק כדי להשתמש בברירת המחדל (%{username}).',
+    appearance: 'מראה',
+    theme: {
+      system: 'מערכת',
+      light: 'בהיר',
+      dark: 'כהה',
+    },
+    language: 'שפה',
+    languageSystem: 'מערכת',
+    restartHint: 'הפעילו מחדש את האפליקציה כדי להחליף את כיוון התצוגה.',
+    token: 'אסימון גישה אישי',
+    signedInAs: 'מחובר בתור %{login}',
+    remove: 'הסרה',
+    removeFailed: 'לא ניתן להסיר את האסימון, נסו שוב',
+    tokenRejected: 'GitHub דחה את האסימון',
+    tokenFailed: 'לא ניתן לאמת את האסימון, נסו שוב',
+    validateToken: 'אימות ושמירת האסימון',
+    rateLimit: 'מכסת API: %{remaining}/%{limit} בקשות, מתאפסת בעוד %{time}',
+    save: 'שמירה',
+  },
+  seo: {
+    profileDescription:
+      '%{name} ב-GitHub: %{repos} מאגרים ציבוריים ו-%{followers} עוקבים.',
+    projectsDescription:
+      'המאגרים הציבוריים של %{name} ב-GitHub, עם שפות ונושאים.',
+    repoDescription: '%{name} ב-GitHub: %{stars} כוכבים ו-%{forks} פיצולים.',
+  },
+  a11y: {
+    back: 'חזרה',
+    close: 'סגירה',
+    pin: 'הצמדת המאגר',
+    unpin: 'ביטול הצמדת המאגר',
+    shareCard: 'שיתוף כרטיס הפרופיל',
+    compare: 'השוואה למשתמשים אחרים',
+    collections: 'פתיחת האוספים',
+    stat: '%{value} %{label}',
+    stars: {
+      one: 'כוכב אחד',
+      other: '%{count} כוכבים',
+    },
+    openRepo: 'פותח את פרטי המאגר',
+    showRepo: 'מציג את המאגר בחלונית הפרטים',
+    openInBrowser: 'פותח את GitHub בדפדפן',
+    member: '%{login} ב-GitHub',
+    commit: 'קומיט %{sha} מאת %{author}: %{message}',
+    release: 'גרסה %{name}',
+    importCollections: 'ייבוא אוספים',
+    exportCollections: 'ייצוא אוספים',
+    createCollection: 'יצירת אוסף',
+    deleteCollection: 'מחיקת האוסף %{name}',
+    remove: 'הסרת %{repo}',
+    addUser: 'הוספת משתמש',
+    shareComparison: 'שיתוף ההשוואה',
+    contributionCalendar: {
+      one: 'לוח תרומות: תרומה אחת ב-%{weeks} השבועות האחרונים',
+      other: 'לוח תרומות: %{count} תרומות ב-%{weeks} השבועות האחרונים',
+    },
+    busiestDay: 'היום הפעיל ביותר: %{day}',
+  },
+  notFound: {
+    title: 'אופס!',
+    message: 'המסך הזה לא קיים.',
+    home: 'חזרה למסך הבית',
+  },
+};
+
+export default he;
@@ -0,0 +1,47 @@
+// Writes dist/sitemap.xml (and a robots.txt pointing at it) from the HTML
+// pages `expo export` produced. Run after the web export.
+const fs = require('fs');
+const path = require('path');
+const { expo } = require('../app.json');
+
+const outputDir = path.resolve(__dirname, '..', process.argv[2] ?? 'dist');
+const siteUrl = expo.extra.siteUrl.replace(/\/$/, '');
+
+// Groups like `(tabs)` are duplicates of their un-grouped paths, dynamic
+// `[param]` fallbacks are not real pages, and `+not-found`/`_sitemap` are
+// router internals.
+const isPage = (segments) =>
+  !segments.some((segment) => /^[([+_]/.test(segment));
+
+function collect(dir, segments = []) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isDirectory()) {
+      return collect(path.join(dir, entry.name), [...segments, entry.name]);
+    }
+    if (!entry.name.endsWith('.html')) return [];
+    const name = entry.name.slice(0, -'.html'.length);
+    const route = name === 'index' ? segments : [...segments, name];
+    return isPage(route) ? ['/' + route.join('/')] : [];
+  });
+}
+
+const escape = (value) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const routes = [...new Set(collect(outputDir))].sort();
+const sitemap = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...routes.map(
+    (route) => `  <url><loc>${escape(siteUrl + encodeURI(route))}</loc></url>`
+  ),
+  '</urlset>',
+  '',
+].join('\n');
+
+fs.writeFileSync(path.join(outputDir, 'sitemap.xml'), sitemap);
+fs.writeFileSync(
+  path.join(outputDir, 'robots.txt'),
+  `User-agent: *\nAllow: /\nSitemap: ${siteUrl}/sitemap.xml\n`
+);
+console.log(`Wrote sitemap.xml with ${routes.length} pages.`);
@@ -0,0 +1,39 @@
+import type { GitHubProfile, Repository } from '@/lib/github';
+
+export const profileFixture: GitHubProfile = {
+  login: 'octocat',
+  type: 'User',
+  avatar_url: 'https://avatars.githubusercontent.com/u/583231',
+  html_url: 'https://github.com/octocat',
+  name: 'The Octocat',
+  bio: 'Mascot',
+  blog: null,
+  location: 'San Francisco',
+  public_repos: 8,
+  followers: 3938,
+  following: 9,
+};
+
+export const repoFixture = (
+  overrides: Partial<Repository> = {}
+): Repository => ({
+  id: 1296269,
+  name: 'hello-world',
+  full_name: 'octocat/hello-world',
+  owner: { login: 'octocat', avatar_url: profileFixture.avatar_url },
+  description: 'My first repository on GitHub!',
+  html_url: 'https://github.com/octocat/hello-world',
+  language: 'TypeScript',
+  stargazers_count: 1200,
+  forks_count: 340,
+  open_issues_count: 12,
+  topics: ['demo'],
+  fork: false,
+  archived: false,
+  default_branch: 'main',
+  size: 108,
+  created_at: '2011-01-26T19:01:12Z',
+  updated_at: '2024-06-01T10:00:00Z',
+  pushed_at: '2024-06-01T10:00:00Z',
+  ...overrides,
+});
@@ -0,0 +1,32 @@
+import type { ReactElement, ReactNode } from 'react';
+import { act, render } from '@testing-library/react-native';
+import { CollectionsProvider } from '@/context/CollectionsContext';
+import { LocaleProvider } from '@/context/LocaleContext';
+import { SettingsProvider } from '@/context/SettingsContext';
+import { ThemeProvider } from '@/context/ThemeContext';
+import { WatchProvider } from '@/context/WatchContext';
+
+// The same provider stack as the root layout.
+function Providers({ children }: { children: ReactNode }) {
+  return (
+    <LocaleProvider>
+      <ThemeProvider>
+        <SettingsProvider>
+          <CollectionsProvider>
+            <WatchProvider>{children}</WatchProvider>
+          </CollectionsProvider>
+        </SettingsProvider>
+      </ThemeProvider>
+    </LocaleProvider>
+  );
+}
+
+/**
+ * Renders inside the app's providers, then lets their stored preferences
+ * and any mocked requests settle so the first assertion sees the result.
+ */
+export async function renderWithProviders(ui: ReactElement) {
+  const result = render(ui, { wrapper: Providers });
+  await act(async () => {});
+  return result;
+}
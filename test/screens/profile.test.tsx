@@ -0,0 +1,79 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { screen } from '@testing-library/react-native';
+import ProfileScreen from '@/app/(tabs)/index';
+import { getAllUserEvents, getAllUserRepos, getUser } from '@/lib/github';
+import { profileFixture, repoFixture } from '@/test/fixtures';
+import { renderWithProviders } from '@/test/render';
+
+jest.mock('@/lib/github', () => ({
+  ...jest.requireActual('@/lib/github'),
+  getUser: jest.fn(),
+  getAllUserRepos: jest.fn(),
+  getAllUserEvents: jest.fn(),
+}));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(getUser).mockResolvedValue(profileFixture);
+  jest.mocked(getAllUserRepos).mockResolvedValue([
+    repoFixture(),
+    repoFixture({ id: 2, name: 'spoon-knife', stargazers_count: 30 }),
+  ]);
+  jest.mocked(getAllUserEvents).mockResolvedValue([]);
+});
+
+describe('ProfileScreen accessibility', () => {
+  it('announces the account name as a heading', async () => {
+    await renderWithProviders(<ProfileScreen />);
+    expect(
+      screen.getByRole('header', { name: 'The Octocat' })
+    ).toBeOnTheScreen();
+  });
+
+  it('labels the icon-only header actions', async () => {
+    await renderWithProviders(<ProfileScreen />);
+    expect(
+      screen.getByRole('button', { name: 'Share profile card' })
+    ).toBeOnTheScreen();
+    for (const name of ['Compare with other users', 'Open collections']) {
+      expect(screen.getByRole('link', { name })).toBeOnTheScreen();
+    }
+    expect(screen.getByRole('link', { name: 'Settings' })).toBeOnTheScreen();
+  });
+
+  it('reads each stat as one phrase', async () => {
+    await renderWithProviders(<ProfileScreen />);
+    expect(screen.getByLabelText('8 Repositories')).toBeOnTheScreen();
+    expect(screen.getByLabelText('3,938 Followers')).toBeOnTheScreen();
+    expect(screen.getByLabelText('1,230 Total Stars')).toBeOnTheScreen();
+  });
+
+  it('describes the top repository cards', async () => {
+    await renderWithProviders(<ProfileScreen />);
+    const card = screen.getByRole('button', {
+      name:
+        'hello-world, My first repository on GitHub!, TypeScript, 1200 stars',
+    });
+    expect(card).toHaveProp(
+      'accessibilityHint',
+      'Opens the repository details'
+    );
+  });
+
+  it('summarises the contribution calendar', async () => {
+    await renderWithProviders(<ProfileScreen />);
+    expect(
+      screen.getByRole('image', {
+        name: 'Contribution calendar: 0 contributions in the last 13 weeks',
+      })
+    ).toBeOnTheScreen();
+    expect(screen.getByLabelText('0 Current streak')).toBeOnTheScreen();
+  });
+
+  it('marks the follow button as an external link', async () => {
+    await renderWithProviders(<ProfileScreen />);
+    expect(
+      screen.getByRole('link', { name: 'Follow on GitHub' })
+    ).toHaveProp('accessibilityHint', 'Opens GitHub in the browser');
+  });
+});
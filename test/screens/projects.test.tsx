@@ -0,0 +1,134 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { fireEvent, screen } from '@testing-library/react-native';
+import { useLocalSearchParams } from 'expo-router';
+import ProjectsScreen from '@/app/(tabs)/projects';
+import { getUser, getUserReposPage } from '@/lib/github';
+import { profileFixture, repoFixture } from '@/test/fixtures';
+import { renderWithProviders } from '@/test/render';
+
+jest.mock('@/lib/github', () => ({
+  ...jest.requireActual('@/lib/github'),
+  getUser: jest.fn(),
+  getUserReposPage: jest.fn(),
+}));
+
+const HELLO_WORLD =
+  'hello-world, My first repository on GitHub!, TypeScript, 1200 stars';
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(getUser).mockResolvedValue(profileFixture);
+  jest.mocked(getUserReposPage).mockResolvedValue({
+    items: [
+      repoFixture(),
+      repoFixture({
+        id: 2,
+        name: 'spoon-knife',
+        full_name: 'octocat/spoon-knife',
+        description: null,
+        language: null,
+        stargazers_count: 1,
+      }),
+    ],
+    next: null,
+  });
+});
+
+describe('ProjectsScreen accessibility', () => {
+  it('announces the screen title as a heading', async () => {
+    await renderWithProviders(<ProjectsScreen />);
+    expect(
+      screen.getByRole('header', { name: 'All Repositories' })
+    ).toBeOnTheScreen();
+  });
+
+  it('describes each repository card', async () => {
+    await renderWithProviders(<ProjectsScreen />);
+    expect(screen.getByRole('button', { name: HELLO_WORLD })).toHaveProp(
+      'accessibilityHint',
+      'Opens the repository details'
+    );
+    expect(
+      screen.getByRole('button', { name: 'spoon-knife, 1 star' })
+    ).toBeOnTheScreen();
+  });
+
+  it('labels the pin button with its current state', async () => {
+    await renderWithProviders(<ProjectsScreen />);
+    const pins = screen.getAllByLabelText('Pin repository');
+    expect(pins).toHaveLength(2);
+    expect(pins[0]).toHaveProp('accessibilityRole', 'button');
+
+    fireEvent.press(pins[0]);
+
+    expect(
+      await screen.findByLabelText('Unpin repository')
+    ).toBeOnTheScreen();
+  });
+
+  it('offers pinning as an action on the card', async () => {
+    await renderWithProviders(<ProjectsScreen />);
+    const card = screen.getByRole('button', { name: HELLO_WORLD });
+    expect(card).toHaveProp('accessibilityActions', [
+      { name: 'togglePin', label: 'Pin repository' },
+    ]);
+
+    fireEvent(card, 'accessibilityAction', {
+      nativeEvent: { actionName: 'togglePin' },
+    });
+
+    expect(
+      await screen.findByLabelText('Unpin repository')
+    ).toBeOnTheScreen();
+  });
+});
+
+describe('ProjectsScreen paging', () => {
+  beforeEach(() => {
+    jest.mocked(getUserReposPage).mockClear();
+    jest.mocked(getUserReposPage).mockImplementation(async (_user, next) =>
+      next
+        ? {
+            items: [
+              repoFixture({
+                id: 3,
+                name: 'zebra',
+                full_name: 'octocat/zebra',
+                description: null,
+                language: null,
+                stargazers_count: 5000,
+              }),
+            ],
+            next: null,
+          }
+        : { items: [repoFixture()], next: 'page-2' }
+    );
+  });
+
+  afterEach(() => {
+    jest.mocked(useLocalSearchParams).mockReturnValue({});
+  });
+
+  it('loads every page before sorting by stars', async () => {
+    await renderWithProviders(<ProjectsScreen />);
+    expect(
+      await screen.findByRole('button', { name: 'zebra, 5000 stars' })
+    ).toBeOnTheScreen();
+    expect(getUserReposPage).toHaveBeenCalledWith(
+      expect.any(String),
+      'page-2'
+    );
+  });
+
+  it('waits for scrolling when the list is in API order', async () => {
+    jest.mocked(useLocalSearchParams).mockReturnValue({ sort: 'name' });
+    await renderWithProviders(<ProjectsScreen />);
+    expect(
+      screen.getByRole('button', { name: HELLO_WORLD })
+    ).toBeOnTheScreen();
+    expect(getUserReposPage).not.toHaveBeenCalledWith(
+      expect.any(String),
+      'page-2'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Text } from 'react-native';
+import { act, fireEvent, screen } from '@testing-library/react-native';
+import { router } from 'expo-router';
+import SettingsScreen from '@/app/settings';
+import { useSettings } from '@/context/SettingsContext';
+import { clearToken, loadToken } from '@/lib/tokenStorage';
+import { renderWithProviders } from '@/test/render';
+
+jest.mock('@/lib/tokenStorage', () => ({
+  ...jest.requireActual('@/lib/tokenStorage'),
+  loadToken: jest.fn(),
+  clearToken: jest.fn(),
+}));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.mocked(loadToken).mockResolvedValue(null);
+});
+
+function SettingsProbe() {
+  const { username, ready } = useSettings();
+  return <Text>{ready ? username : 'loading'}</Text>;
+}
+
+describe('SettingsProvider', () => {
+  it('keeps the stored username when the token cannot be read', async () => {
+    await AsyncStorage.setItem('settings.githubUsername', 'octocat');
+    jest.mocked(loadToken).mockRejectedValue(new Error('Keystore reset'));
+
+    await renderWithProviders(<SettingsProbe />);
+    expect(screen.getByText('octocat')).toBeOnTheScreen();
+  });
+});
+
+describe('SettingsScreen', () => {
+  it('goes back even when the username cannot be stored', async () => {
+    await renderWithProviders(<SettingsScreen />);
+    jest
+      .spyOn(AsyncStorage, 'setItem')
+      .mockRejectedValueOnce(new Error('Database full'));
+
+    await act(async () => {
+      fireEvent.press(screen.getByRole('button', { name: 'Save' }));
+    });
+    expect(router.back).toHaveBeenCalled();
+  });
+
+  it('stays signed in when the token cannot be removed', async () => {
+    await AsyncStorage.setItem('settings.tokenLogin', 'octocat');
+    jest.mocked(loadToken).mockResolvedValue('secret');
+    jest.mocked(clearToken).mockRejectedValue(new Error('Keystore locked'));
+    await renderWithProviders(<SettingsScreen />);
+
+    await act(async () => {
+      fireEvent.press(screen.getByRole('button', { name: 'Remove' }));
+    });
+    expect(screen.getByText('Signed in as octocat')).toBeOnTheScreen();
+    expect(
+      screen.getByText('Could not remove the token, try again')
+    ).toBeOnTheScreen();
+  });
+});
+
+describe('SettingsScreen accessibility', () => {
+  it('labels the username and token fields', async () => {
+    await renderWithProviders(<SettingsScreen />);
+    expect(screen.getByLabelText('GitHub username')).toBeOnTheScreen();
+    expect(screen.getByLabelText('Personal access token')).toBeOnTheScreen();
+  });
+
+  it('exposes the token and save actions as buttons', async () => {
+    await renderWithProviders(<SettingsScreen />);
+    expect(
+      screen.getByRole('button', { name: 'Validate & save token' })
+    ).toBeOnTheScreen();
+    expect(screen.getByRole('button', { name: 'Save' })).toBeOnTheScreen();
+  });
+});